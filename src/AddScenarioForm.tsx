@@ -1,10 +1,39 @@
-import React from 'react'
+import React, { useState } from 'react'
+import OwnershipCostsInputs from './OwnershipCostsInputs'
+import ClosingCostsInputs from './ClosingCostsInputs'
+import SaleInputs from './SaleInputs'
+import InvestmentTaxInputs from './InvestmentTaxInputs'
+import {
+	MORTGAGE_INSURANCE_LABELS,
+	PAYMENT_FREQUENCY_LABELS,
+} from './mortgageCalculations'
+import {
+	ClosingCosts,
+	CompoundingFrequency,
+	InvestmentTaxSettings,
+	LumpSumPrepayment,
+	MortgageInsuranceType,
+	OwnershipCosts,
+	PaymentFrequency,
+	RefinanceEvent,
+	SaleSettings,
+	ScenarioType,
+	VariablePaymentMode,
+} from './types'
 
 interface AddScenarioFormProps {
 	homePrice: number
 	scenariosCount: number
 	newScenarioName: string
 	setNewScenarioName: (name: string) => void
+	newScenarioType: ScenarioType
+	setNewScenarioType: (type: ScenarioType) => void
+	newInitialMonthlyRent: number
+	setNewInitialMonthlyRent: (rent: number) => void
+	newAnnualRentIncrease: number
+	setNewAnnualRentIncrease: (increase: number) => void
+	newRentersInsurance: number
+	setNewRentersInsurance: (insurance: number) => void
 	newDownPaymentType: 'amount' | 'percent'
 	setNewDownPaymentType: (type: 'amount' | 'percent') => void
 	newDownPaymentValue: number
@@ -13,6 +42,54 @@ interface AddScenarioFormProps {
 	setNewInterestRate: (rate: number) => void
 	newTerm: number
 	setNewTerm: (term: number) => void
+	newRateTermYears: number
+	setNewRateTermYears: (years: number) => void
+	newRenewalRate: number
+	setNewRenewalRate: (rate: number) => void
+	newIsVariableRate: boolean
+	setNewIsVariableRate: (isVariable: boolean) => void
+	newRatePathText: string
+	setNewRatePathText: (text: string) => void
+	newVariablePaymentMode: VariablePaymentMode
+	setNewVariablePaymentMode: (mode: VariablePaymentMode) => void
+	newFirstPaymentDate: string
+	setNewFirstPaymentDate: (date: string) => void
+	newCompounding: CompoundingFrequency
+	setNewCompounding: (compounding: CompoundingFrequency) => void
+	newPaymentFrequency: PaymentFrequency
+	setNewPaymentFrequency: (frequency: PaymentFrequency) => void
+	newMortgageInsuranceType: MortgageInsuranceType
+	setNewMortgageInsuranceType: (type: MortgageInsuranceType) => void
+	newExtraMonthlyPayment: number
+	setNewExtraMonthlyPayment: (amount: number) => void
+	newExtraPaymentStartYear: number
+	setNewExtraPaymentStartYear: (year: number) => void
+	newLumpSumPrepayments: LumpSumPrepayment[]
+	setNewLumpSumPrepayments: (prepayments: LumpSumPrepayment[]) => void
+	newRefinances: RefinanceEvent[]
+	setNewRefinances: (refinances: RefinanceEvent[]) => void
+	globalOwnershipCosts: OwnershipCosts
+	newOwnershipCosts: OwnershipCosts | null
+	setNewOwnershipCosts: (costs: OwnershipCosts | null) => void
+	globalClosingCosts: ClosingCosts
+	newClosingCosts: ClosingCosts | null
+	setNewClosingCosts: (costs: ClosingCosts | null) => void
+	globalSale: SaleSettings
+	newSale: SaleSettings | null
+	setNewSale: (sale: SaleSettings | null) => void
+	newHomePrice: number | null
+	setNewHomePrice: (price: number | null) => void
+	globalAppreciationRate: number
+	newAppreciationRate: number | null
+	setNewAppreciationRate: (rate: number | null) => void
+	globalInvestmentReturn: number
+	newInvestmentReturn: number | null
+	setNewInvestmentReturn: (rate: number | null) => void
+	newInvestmentReturnPathText: string
+	setNewInvestmentReturnPathText: (text: string) => void
+	globalInvestmentTax: InvestmentTaxSettings
+	newInvestmentTax: InvestmentTaxSettings | null
+	setNewInvestmentTax: (settings: InvestmentTaxSettings | null) => void
 	onAddScenario: () => void
 	formatCurrency: (amount: number | undefined) => string
 	handleDownPaymentTypeChange: (
@@ -25,6 +102,14 @@ const AddScenarioForm: React.FC<AddScenarioFormProps> = ({
 	scenariosCount,
 	newScenarioName,
 	setNewScenarioName,
+	newScenarioType,
+	setNewScenarioType,
+	newInitialMonthlyRent,
+	setNewInitialMonthlyRent,
+	newAnnualRentIncrease,
+	setNewAnnualRentIncrease,
+	newRentersInsurance,
+	setNewRentersInsurance,
 	newDownPaymentType,
 	// setNewDownPaymentType, // Handled by handleDownPaymentTypeChange
 	newDownPaymentValue,
@@ -33,10 +118,95 @@ const AddScenarioForm: React.FC<AddScenarioFormProps> = ({
 	setNewInterestRate,
 	newTerm,
 	setNewTerm,
+	newRateTermYears,
+	setNewRateTermYears,
+	newRenewalRate,
+	setNewRenewalRate,
+	newIsVariableRate,
+	setNewIsVariableRate,
+	newRatePathText,
+	setNewRatePathText,
+	newVariablePaymentMode,
+	setNewVariablePaymentMode,
+	newFirstPaymentDate,
+	setNewFirstPaymentDate,
+	newCompounding,
+	setNewCompounding,
+	newPaymentFrequency,
+	setNewPaymentFrequency,
+	newMortgageInsuranceType,
+	setNewMortgageInsuranceType,
+	newExtraMonthlyPayment,
+	setNewExtraMonthlyPayment,
+	newExtraPaymentStartYear,
+	setNewExtraPaymentStartYear,
+	newLumpSumPrepayments,
+	setNewLumpSumPrepayments,
+	newRefinances,
+	setNewRefinances,
+	globalOwnershipCosts,
+	newOwnershipCosts,
+	setNewOwnershipCosts,
+	globalClosingCosts,
+	newClosingCosts,
+	setNewClosingCosts,
+	globalSale,
+	newSale,
+	setNewSale,
+	newHomePrice,
+	setNewHomePrice,
+	globalAppreciationRate,
+	newAppreciationRate,
+	setNewAppreciationRate,
+	globalInvestmentReturn,
+	newInvestmentReturn,
+	setNewInvestmentReturn,
+	newInvestmentReturnPathText,
+	setNewInvestmentReturnPathText,
+	globalInvestmentTax,
+	newInvestmentTax,
+	setNewInvestmentTax,
 	onAddScenario,
 	formatCurrency,
 	handleDownPaymentTypeChange,
 }) => {
+	// Down payment and closing cost previews use the scenario's own price
+	const scenarioHomePrice = newHomePrice ?? homePrice
+	// Pending lump sum, added to the list with the "Add Lump Sum" button
+	const [lumpSumAmount, setLumpSumAmount] = useState<number>(10000)
+	const [lumpSumYear, setLumpSumYear] = useState<number>(1)
+
+	const addLumpSum = () => {
+		if (lumpSumAmount <= 0 || lumpSumYear < 1) return
+		setNewLumpSumPrepayments([
+			...newLumpSumPrepayments,
+			{ amount: lumpSumAmount, year: lumpSumYear },
+		])
+	}
+
+	// Pending refinance, added to the list with the "Add Refinance" button
+	const [refinance, setRefinance] = useState<RefinanceEvent>({
+		year: 5,
+		interestRate: 3.5,
+		term: 25,
+		cashOut: 0,
+		penalty: 0,
+		fees: 1500,
+	})
+
+	const addRefinance = () => {
+		if (
+			refinance.year < 2 ||
+			refinance.term <= 0 ||
+			newRefinances.some((event) => event.year === refinance.year)
+		) {
+			return
+		}
+		setNewRefinances(
+			[...newRefinances, refinance].sort((a, b) => a.year - b.year)
+		)
+	}
+
 	return (
 		<>
 			<h2>Add New Scenario</h2>
@@ -55,67 +225,620 @@ const AddScenarioForm: React.FC<AddScenarioFormProps> = ({
 				</div>
 
 				<div>
-					<label style={{ marginRight: '10px' }}>Down Payment Type:</label>
+					<label style={{ marginRight: '10px' }}>Scenario Type:</label>
 					<label style={{ marginRight: '10px', display: 'inline-block' }}>
 						<input
 							type="radio"
-							value="amount"
-							checked={newDownPaymentType === 'amount'}
-							onChange={handleDownPaymentTypeChange}
+							value="mortgage"
+							checked={newScenarioType === 'mortgage'}
+							onChange={() => setNewScenarioType('mortgage')}
 							style={{ marginRight: '5px' }}
 						/>
-						Amount ($)
+						Buy (Mortgage)
 					</label>
 					<label style={{ display: 'inline-block' }}>
 						<input
 							type="radio"
-							value="percent"
-							checked={newDownPaymentType === 'percent'}
-							onChange={handleDownPaymentTypeChange}
+							value="rent"
+							checked={newScenarioType === 'rent'}
+							onChange={() => setNewScenarioType('rent')}
 							style={{ marginRight: '5px' }}
 						/>
-						Percent (%)
+						Rent
 					</label>
 				</div>
-				<div>
-					<label>
-						Down Payment ({newDownPaymentType === 'amount' ? '$' : '%'}):
-						<input
-							type="number"
-							value={newDownPaymentValue}
-							onChange={(e) => setNewDownPaymentValue(Number(e.target.value))}
-							min="0"
-							step={newDownPaymentType === 'percent' ? '0.1' : '1'}
-						/>
-						{newDownPaymentType === 'percent' && (
-							<span style={{ marginLeft: '10px', color: '#555' }}>
-								({formatCurrency(homePrice * (newDownPaymentValue / 100))})
-							</span>
+				{newScenarioType === 'rent' ? (
+					<>
+						<div>
+							<label>
+								Monthly Rent ($):
+								<input
+									type="number"
+									value={newInitialMonthlyRent}
+									onChange={(e) =>
+										setNewInitialMonthlyRent(Number(e.target.value))
+									}
+									min="0"
+									step="50"
+								/>
+							</label>
+						</div>
+						<div>
+							<label>
+								Annual Rent Increase (%):
+								<input
+									type="number"
+									value={newAnnualRentIncrease}
+									onChange={(e) =>
+										setNewAnnualRentIncrease(Number(e.target.value))
+									}
+									step="0.1"
+								/>
+							</label>
+						</div>
+						<div>
+							<label>
+								Renter's Insurance ($/yr):
+								<input
+									type="number"
+									value={newRentersInsurance}
+									onChange={(e) =>
+										setNewRentersInsurance(Number(e.target.value))
+									}
+									min="0"
+									step="10"
+								/>
+							</label>
+						</div>
+						<p style={{ color: '#555' }}>
+							Renting keeps all of the initial investments invested, with no
+							down payment.
+						</p>
+					</>
+				) : (
+					<>
+						<div>
+							<label>
+								<input
+									type="checkbox"
+									checked={newHomePrice !== null}
+									onChange={(e) =>
+										setNewHomePrice(e.target.checked ? homePrice : null)
+									}
+								/>
+								Use a different home price for this scenario
+							</label>
+							{newHomePrice !== null && (
+								<label>
+									Home Price ($):
+									<input
+										type="number"
+										value={newHomePrice}
+										onChange={(e) => setNewHomePrice(Number(e.target.value))}
+										min="0"
+									/>
+								</label>
+							)}
+						</div>
+						<div>
+							<label style={{ marginRight: '10px' }}>Down Payment Type:</label>
+							<label style={{ marginRight: '10px', display: 'inline-block' }}>
+								<input
+									type="radio"
+									value="amount"
+									checked={newDownPaymentType === 'amount'}
+									onChange={handleDownPaymentTypeChange}
+									style={{ marginRight: '5px' }}
+								/>
+								Amount ($)
+							</label>
+							<label style={{ display: 'inline-block' }}>
+								<input
+									type="radio"
+									value="percent"
+									checked={newDownPaymentType === 'percent'}
+									onChange={handleDownPaymentTypeChange}
+									style={{ marginRight: '5px' }}
+								/>
+								Percent (%)
+							</label>
+						</div>
+						<div>
+							<label>
+								Down Payment ({newDownPaymentType === 'amount' ? '$' : '%'}):
+								<input
+									type="number"
+									value={newDownPaymentValue}
+									onChange={(e) =>
+										setNewDownPaymentValue(Number(e.target.value))
+									}
+									min="0"
+									step={newDownPaymentType === 'percent' ? '0.1' : '1'}
+								/>
+								{newDownPaymentType === 'percent' && (
+									<span style={{ marginLeft: '10px', color: '#555' }}>
+										(
+										{formatCurrency(
+											scenarioHomePrice * (newDownPaymentValue / 100)
+										)}
+										)
+									</span>
+								)}
+							</label>
+						</div>
+						<div>
+							<label>
+								Interest Rate:{' '}
+								<input
+									type="number"
+									value={newInterestRate}
+									onChange={(e) => setNewInterestRate(Number(e.target.value))}
+									step="0.01"
+									min="0"
+								/>
+							</label>
+							<label>
+								<input
+									type="checkbox"
+									checked={newIsVariableRate}
+									onChange={(e) => setNewIsVariableRate(e.target.checked)}
+								/>
+								Variable Rate
+							</label>
+						</div>
+						{newIsVariableRate && (
+							<div>
+								<label>
+									Rate Changes (year:rate, e.g. "2:5.5, 3.6:6"):
+									<input
+										type="text"
+										value={newRatePathText}
+										onChange={(e) => setNewRatePathText(e.target.value)}
+										placeholder="2:5.5, 3.6:6"
+										style={{ width: '200px' }}
+									/>
+								</label>
+								<label>
+									Payments:{' '}
+									<select
+										value={newVariablePaymentMode}
+										onChange={(e) =>
+											setNewVariablePaymentMode(
+												e.target.value as VariablePaymentMode
+											)
+										}
+									>
+										<option value="floating">Float with rate</option>
+										<option value="fixed">
+											Stay fixed (extend amortization)
+										</option>
+									</select>
+								</label>
+							</div>
 						)}
-					</label>
-				</div>
+						<div>
+							<label>
+								Amortization (Years):{' '}
+								<input
+									type="number"
+									value={newTerm}
+									onChange={(e) => setNewTerm(Number(e.target.value))}
+									min="1"
+								/>
+							</label>
+						</div>
+						<div>
+							<label>
+								Rate Term (Years, 0 = full amortization):{' '}
+								<input
+									type="number"
+									value={newRateTermYears}
+									onChange={(e) => setNewRateTermYears(Number(e.target.value))}
+									min="0"
+								/>
+							</label>
+							{newRateTermYears > 0 && (
+								<label>
+									Renewal Rate:{' '}
+									<input
+										type="number"
+										value={newRenewalRate}
+										onChange={(e) => setNewRenewalRate(Number(e.target.value))}
+										step="0.01"
+										min="0"
+									/>
+								</label>
+							)}
+						</div>
+						<div>
+							<label>
+								First Payment Date:{' '}
+								<input
+									type="date"
+									value={newFirstPaymentDate}
+									onChange={(e) => setNewFirstPaymentDate(e.target.value)}
+								/>
+							</label>
+						</div>
+						<div>
+							<label>
+								Compounding:{' '}
+								<select
+									value={newCompounding}
+									onChange={(e) =>
+										setNewCompounding(e.target.value as CompoundingFrequency)
+									}
+								>
+									<option value="monthly">Monthly (US)</option>
+									<option value="semi-annual">Semi-annual (Canada)</option>
+									<option value="daily">Daily</option>
+								</select>
+							</label>
+						</div>
+						<div>
+							<label>
+								Payment Frequency:{' '}
+								<select
+									value={newPaymentFrequency}
+									onChange={(e) =>
+										setNewPaymentFrequency(e.target.value as PaymentFrequency)
+									}
+								>
+									{(
+										Object.keys(PAYMENT_FREQUENCY_LABELS) as PaymentFrequency[]
+									).map((frequency) => (
+										<option key={frequency} value={frequency}>
+											{PAYMENT_FREQUENCY_LABELS[frequency]}
+										</option>
+									))}
+								</select>
+							</label>
+						</div>
+						<div>
+							<label>
+								Mortgage Insurance:{' '}
+								<select
+									value={newMortgageInsuranceType}
+									onChange={(e) =>
+										setNewMortgageInsuranceType(
+											e.target.value as MortgageInsuranceType
+										)
+									}
+								>
+									{(
+										Object.keys(
+											MORTGAGE_INSURANCE_LABELS
+										) as MortgageInsuranceType[]
+									).map((type) => (
+										<option key={type} value={type}>
+											{MORTGAGE_INSURANCE_LABELS[type]}
+										</option>
+									))}
+								</select>
+							</label>
+						</div>
+						<div>
+							<label>
+								Extra Monthly Payment ($):
+								<input
+									type="number"
+									value={newExtraMonthlyPayment}
+									onChange={(e) =>
+										setNewExtraMonthlyPayment(Number(e.target.value))
+									}
+									min="0"
+								/>
+							</label>
+							<label>
+								Starting Year:
+								<input
+									type="number"
+									value={newExtraPaymentStartYear}
+									onChange={(e) =>
+										setNewExtraPaymentStartYear(Number(e.target.value))
+									}
+									min="1"
+								/>
+							</label>
+						</div>
+						<div>
+							<label>
+								Lump Sum ($):
+								<input
+									type="number"
+									value={lumpSumAmount}
+									onChange={(e) => setLumpSumAmount(Number(e.target.value))}
+									min="0"
+								/>
+							</label>
+							<label>
+								In Year:
+								<input
+									type="number"
+									value={lumpSumYear}
+									onChange={(e) => setLumpSumYear(Number(e.target.value))}
+									min="1"
+								/>
+							</label>
+							<button onClick={addLumpSum} style={{ marginTop: 0 }}>
+								Add Lump Sum
+							</button>
+							{newLumpSumPrepayments.length > 0 && (
+								<ul className="lump-sum-list">
+									{newLumpSumPrepayments.map((prepayment, index) => (
+										<li key={`${prepayment.year}-${index}`}>
+											{formatCurrency(prepayment.amount)} in year{' '}
+											{prepayment.year}
+											<button
+												onClick={() =>
+													setNewLumpSumPrepayments(
+														newLumpSumPrepayments.filter((_, i) => i !== index)
+													)
+												}
+												className="remove-button-small"
+												style={{ marginLeft: '10px' }}
+											>
+												Remove
+											</button>
+										</li>
+									))}
+								</ul>
+							)}
+						</div>
+						<div>
+							<label>
+								Refinance in Year:
+								<input
+									type="number"
+									value={refinance.year}
+									onChange={(e) =>
+										setRefinance({ ...refinance, year: Number(e.target.value) })
+									}
+									min="2"
+								/>
+							</label>
+							<label>
+								New Rate (%):
+								<input
+									type="number"
+									value={refinance.interestRate}
+									onChange={(e) =>
+										setRefinance({
+											...refinance,
+											interestRate: Number(e.target.value),
+										})
+									}
+									step="0.01"
+									min="0"
+								/>
+							</label>
+							<label>
+								New Amortization (Years):
+								<input
+									type="number"
+									value={refinance.term}
+									onChange={(e) =>
+										setRefinance({ ...refinance, term: Number(e.target.value) })
+									}
+									min="1"
+								/>
+							</label>
+							<label>
+								Cash-Out ($):
+								<input
+									type="number"
+									value={refinance.cashOut}
+									onChange={(e) =>
+										setRefinance({
+											...refinance,
+											cashOut: Number(e.target.value),
+										})
+									}
+									min="0"
+								/>
+							</label>
+							<label>
+								Penalty ($):
+								<input
+									type="number"
+									value={refinance.penalty}
+									onChange={(e) =>
+										setRefinance({
+											...refinance,
+											penalty: Number(e.target.value),
+										})
+									}
+									min="0"
+								/>
+							</label>
+							<label>
+								Fees ($):
+								<input
+									type="number"
+									value={refinance.fees}
+									onChange={(e) =>
+										setRefinance({ ...refinance, fees: Number(e.target.value) })
+									}
+									min="0"
+								/>
+							</label>
+							<button onClick={addRefinance} style={{ marginTop: 0 }}>
+								Add Refinance
+							</button>
+							{newRefinances.length > 0 && (
+								<ul className="lump-sum-list">
+									{newRefinances.map((event, index) => (
+										<li key={event.year}>
+											Year {event.year} @ {event.interestRate}% over{' '}
+											{event.term} years
+											{event.cashOut
+												? `, ${formatCurrency(event.cashOut)} out`
+												: ''}
+											{', '}
+											{formatCurrency(
+												(event.penalty ?? 0) + (event.fees ?? 0)
+											)}{' '}
+											costs
+											<button
+												onClick={() =>
+													setNewRefinances(
+														newRefinances.filter((_, i) => i !== index)
+													)
+												}
+												className="remove-button-small"
+												style={{ marginLeft: '10px' }}
+											>
+												Remove
+											</button>
+										</li>
+									))}
+								</ul>
+							)}
+						</div>
+						<div>
+							<label>
+								<input
+									type="checkbox"
+									checked={newOwnershipCosts !== null}
+									onChange={(e) =>
+										setNewOwnershipCosts(
+											e.target.checked ? { ...globalOwnershipCosts } : null
+										)
+									}
+								/>
+								Use different ownership costs for this scenario
+							</label>
+							{newOwnershipCosts && (
+								<OwnershipCostsInputs
+									costs={newOwnershipCosts}
+									onChange={setNewOwnershipCosts}
+								/>
+							)}
+						</div>
+						<div>
+							<label>
+								<input
+									type="checkbox"
+									checked={newClosingCosts !== null}
+									onChange={(e) =>
+										setNewClosingCosts(
+											e.target.checked ? { ...globalClosingCosts } : null
+										)
+									}
+								/>
+								Use different closing costs for this scenario (e.g. another
+								city)
+							</label>
+							{newClosingCosts && (
+								<ClosingCostsInputs
+									costs={newClosingCosts}
+									onChange={setNewClosingCosts}
+									homePrice={scenarioHomePrice}
+									formatCurrency={formatCurrency}
+								/>
+							)}
+						</div>
+						<div>
+							<label>
+								<input
+									type="checkbox"
+									checked={newSale !== null}
+									onChange={(e) =>
+										setNewSale(e.target.checked ? { ...globalSale } : null)
+									}
+								/>
+								Use a different sale plan for this scenario
+							</label>
+							{newSale && <SaleInputs sale={newSale} onChange={setNewSale} />}
+						</div>
+						<div>
+							<label>
+								<input
+									type="checkbox"
+									checked={newAppreciationRate !== null}
+									onChange={(e) =>
+										setNewAppreciationRate(
+											e.target.checked ? globalAppreciationRate : null
+										)
+									}
+								/>
+								Use a different home appreciation rate for this scenario
+							</label>
+							{newAppreciationRate !== null && (
+								<label>
+									Home Appreciation (%/yr):
+									<input
+										type="number"
+										value={newAppreciationRate}
+										onChange={(e) =>
+											setNewAppreciationRate(Number(e.target.value))
+										}
+										step="0.1"
+									/>
+								</label>
+							)}
+						</div>
+					</>
+				)}
 				<div>
 					<label>
-						Interest Rate:{' '}
 						<input
-							type="number"
-							value={newInterestRate}
-							onChange={(e) => setNewInterestRate(Number(e.target.value))}
-							step="0.01"
-							min="0"
+							type="checkbox"
+							checked={newInvestmentReturn !== null}
+							onChange={(e) =>
+								setNewInvestmentReturn(
+									e.target.checked ? globalInvestmentReturn : null
+								)
+							}
 						/>
+						Use a different investment return for this scenario
 					</label>
+					{newInvestmentReturn !== null && (
+						<>
+							<label>
+								Investment Return (%/yr):
+								<input
+									type="number"
+									value={newInvestmentReturn}
+									onChange={(e) =>
+										setNewInvestmentReturn(Number(e.target.value))
+									}
+									step="0.1"
+								/>
+							</label>
+							<label>
+								Return Changes (year:return):
+								<input
+									type="text"
+									value={newInvestmentReturnPathText}
+									onChange={(e) =>
+										setNewInvestmentReturnPathText(e.target.value)
+									}
+									placeholder="e.g., 6:4.5"
+								/>
+							</label>
+						</>
+					)}
 				</div>
 				<div>
 					<label>
-						Term:{' '}
 						<input
-							type="number"
-							value={newTerm}
-							onChange={(e) => setNewTerm(Number(e.target.value))}
-							min="1"
+							type="checkbox"
+							checked={newInvestmentTax !== null}
+							onChange={(e) =>
+								setNewInvestmentTax(
+									e.target.checked ? { ...globalInvestmentTax } : null
+								)
+							}
 						/>
+						Use a different investment account or taxes for this scenario
 					</label>
+					{newInvestmentTax && (
+						<InvestmentTaxInputs
+							settings={newInvestmentTax}
+							onChange={setNewInvestmentTax}
+						/>
+					)}
 				</div>
 			</div>
 			<button onClick={onAddScenario}>Add Scenario</button>
@@ -1,7 +1,8 @@
-import React, { useState, useMemo, useEffect } from 'react' // Import useEffect
+import React, { useState, useMemo, useEffect, useCallback } from 'react' // Import useEffect
 // Add recharts imports
 import {
-	LineChart,
+	ComposedChart,
+	Area,
 	Line,
 	XAxis,
 	YAxis,
@@ -9,6 +10,7 @@ import {
 	Tooltip,
 	Legend,
 	ResponsiveContainer,
+	ReferenceLine,
 } from 'recharts'
 import './App.css'
 import jsyaml from 'js-yaml' // Import js-yaml
@@ -17,448 +19,143 @@ import jsyaml from 'js-yaml' // Import js-yaml
 import ScenarioTableRow from './ScenarioTableRow'
 import ScenarioSummaryCard from './ScenarioSummaryCard'
 import AddScenarioForm from './AddScenarioForm'
-
-// Define an interface for the expected structure of config.yaml
-interface ConfigData {
-	homePrice: number
-	initialInvestments: number
-	initialScenarios: Array<{
-		name: string
-		downPaymentInput: number
-		downPaymentType: 'amount' | 'percent'
-		interestRate: number
-		term: number
-	}>
-}
-
-// Export types so they can be imported by other components
-export interface Scenario {
-	name: string
-	downPayment: number // No longer optional
-	downPaymentInput: number // No longer optional
-	downPaymentType: 'amount' | 'percent' // No longer optional
-	interestRate: number // No longer optional
-	term: number // No longer optional
-	monthlyPayment: number // No longer optional
-	yearlyData: YearlyPaymentData[] // No longer optional
-}
-
-export interface YearlyPaymentData {
-	year: number
-	beginningBalance: number
-	interestPaidYearly: number
-	principalPaidYearly: number
-	endingBalance: number
-	totalPrincipalPaid: number
-	totalInterestPaid: number
-	annualCost: number // Added: Principal + Interest for the year
-	investmentDifference?: number // Added: Difference vs lowest annual cost scenario
-	cumulativeInvestmentValue?: number // Added: Total value of invested differences
-	investmentProfitYearly?: number // Added: Investment gain, for the year
-	totalNetWorth?: number // Added: Down Payment + Total Principal Paid + Cumulative Investment Value
-	performancePercentage?: number // Added: % difference vs max net worth for the year
-	netWorthDifference?: number // Now represents Year-over-Year change for the scenario
-}
-
-// Helper function to calculate actual down payment
-const getActualDownPayment = (
-	homePrice: number,
-	downPaymentInput: number,
-	downPaymentType: 'amount' | 'percent'
-): number => {
-	return downPaymentType === 'amount'
-		? downPaymentInput
-		: homePrice * (downPaymentInput / 100)
-}
-
-// Update return type
-function calculateMortgageAmortization(
-	principal: number,
-	annualRate: number,
-	termYears: number
-): { yearlyData: YearlyPaymentData[]; monthlyPayment: number } | null {
-	// Basic validation
-	if (principal < 0 || annualRate < 0 || termYears <= 0) {
-		return null // Invalid input for negative values or zero term
-	}
-
-	// Handle 0 principal (e.g., 100% down payment)
-	if (principal === 0) {
-		if (annualRate !== 0) {
-			// Cannot have interest on a zero principal loan
-			console.warn('Interest rate ignored for zero principal loan.')
-			annualRate = 0
-		}
-		// Loan is immediately paid off
-		const yearlyDataForZeroPrincipal: YearlyPaymentData[] = [
-			{
-				year: 1,
-				beginningBalance: 0,
-				interestPaidYearly: 0,
-				principalPaidYearly: 0,
-				endingBalance: 0,
-				totalPrincipalPaid: 0,
-				totalInterestPaid: 0,
-				annualCost: 0,
-			},
-		]
-		return { yearlyData: yearlyDataForZeroPrincipal, monthlyPayment: 0 }
-	}
-
-	const monthlyRate = annualRate / 12 / 100
-	const numberOfPayments = termYears * 12
-
-	// Handle zero interest rate case for non-zero principal
-	const monthlyPayment =
-		monthlyRate === 0
-			? principal / numberOfPayments
-			: (principal *
-					(monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments))) /
-			  (Math.pow(1 + monthlyRate, numberOfPayments) - 1)
-
-	if (!isFinite(monthlyPayment)) {
-		console.error('Monthly payment calculation resulted in non-finite number.')
-		return null // Calculation resulted in Infinity or NaN
-	}
-
-	let balance = principal
-	const yearlyData: YearlyPaymentData[] = []
-	let totalPrincipalPaid = 0
-	let totalInterestPaid = 0
-
-	for (let year = 1; year <= termYears; year++) {
-		const beginningBalanceYear = balance
-		let interestPaidYearly = 0
-		let principalPaidYearly = 0
-
-		for (let month = 1; month <= 12; month++) {
-			const currentMonth = (year - 1) * 12 + month
-			// Use a small threshold for floating point comparison
-			if (currentMonth > numberOfPayments || balance <= 0.005) break
-
-			let interestForMonth: number
-			let principalForMonth: number
-
-			if (monthlyRate === 0) {
-				interestForMonth = 0
-				// Ensure principal payment doesn't exceed remaining balance or monthly payment
-				principalForMonth = Math.min(balance, monthlyPayment)
-			} else {
-				interestForMonth = balance * monthlyRate
-				principalForMonth = monthlyPayment - interestForMonth
-			}
-
-			// Ensure principal payment doesn't exceed remaining balance
-			if (principalForMonth > balance) {
-				// Adjust payment if it overshoots the balance
-				principalForMonth = balance
-				interestForMonth = monthlyRate === 0 ? 0 : balance * monthlyRate // Recalculate interest based on actual principal paid
-				if (interestForMonth < 0) interestForMonth = 0 // Avoid negative interest
-			}
-
-			interestPaidYearly += interestForMonth
-			principalPaidYearly += principalForMonth
-			balance -= principalForMonth
-
-			// Ensure balance doesn't go significantly below zero
-			if (balance < 0.005) {
-				balance = 0
-			}
-		}
-
-		totalPrincipalPaid += principalPaidYearly
-		totalInterestPaid += interestPaidYearly
-
-		const annualCost = principalPaidYearly + interestPaidYearly
-
-		yearlyData.push({
-			year: year,
-			beginningBalance: beginningBalanceYear,
-			interestPaidYearly: interestPaidYearly,
-			principalPaidYearly: principalPaidYearly,
-			endingBalance: balance,
-			totalPrincipalPaid: totalPrincipalPaid,
-			totalInterestPaid: totalInterestPaid,
-			annualCost: annualCost,
+import PaymentScheduleRow from './PaymentScheduleRow'
+import OwnershipCostsInputs from './OwnershipCostsInputs'
+import ClosingCostsInputs from './ClosingCostsInputs'
+import SaleInputs from './SaleInputs'
+import MonteCarloInputs from './MonteCarloInputs'
+import InvestmentTaxInputs from './InvestmentTaxInputs'
+import WinProbabilityTable from './WinProbabilityTable'
+import WorkspaceBar from './WorkspaceBar'
+import ShareLinkButton from './ShareLinkButton'
+import ConfigFileActions from './ConfigFileActions'
+import ComparisonExportButtons from './ComparisonExportButtons'
+import ComparisonReport from './ComparisonReport'
+import {
+	createInitialScenariosFromConfig,
+	createScenario,
+	adjustScenariosForInflation,
+	DEFAULT_INFLATION_RATE,
+	DEFAULT_INVESTMENT_RETURN,
+	DEFAULT_INVESTMENT_TAX,
+	DEFAULT_OWNERSHIP_COSTS,
+	getDefaultFirstPaymentDate,
+	validateAppreciationRate,
+	validateInflationRate,
+	validateInvestmentReturn,
+	validateInvestmentTax,
+	validateOwnershipCosts,
+	validateClosingCosts,
+	DEFAULT_CLOSING_COSTS,
+	validateSaleSettings,
+	DEFAULT_SALE_SETTINGS,
+	getScenarioConfig,
+	updateScenarioHomePrice,
+} from './mortgageCalculations'
+import {
+	adjustMonteCarloResultForInflation,
+	DEFAULT_MONTE_CARLO_SETTINGS,
+	validateMonteCarloSettings,
+} from './monteCarlo'
+import { useScenarioCalculations } from './useScenarioCalculations'
+import {
+	createWorkspace,
+	getUniqueWorkspaceName,
+	loadWorkspaces,
+	saveWorkspaces,
+} from './workspaceStorage'
+import { decodeShareLink } from './shareLink'
+import { checkConfigData } from './configValidation'
+import {
+	ComparisonOptions,
+	CompoundingFrequency,
+	ClosingCosts,
+	ConfigData,
+	InvestmentReturnChange,
+	InvestmentTaxSettings,
+	LumpSumPrepayment,
+	MonteCarloSettings,
+	MortgageInsuranceType,
+	OwnershipCosts,
+	PaymentFrequency,
+	RateChange,
+	RefinanceEvent,
+	SaleSettings,
+	Scenario,
+	ScenarioConfig,
+	ScenarioType,
+	VariablePaymentMode,
+	Workspace,
+	YearlyMetricKey,
+	YearlyPaymentData,
+} from './types'
+
+// Parse a rate path typed as "year:rate" pairs, e.g. "2:5.5, 3.6:6" where
+// "3.6" means year 3, month 6. Returns null if any entry is malformed.
+const parseRatePath = (text: string): RateChange[] | null => {
+	const entries = text
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry !== '')
+	const ratePath: RateChange[] = []
+	for (const entry of entries) {
+		const match = entry.match(/^(\d+)(?:\.(\d{1,2}))?\s*:\s*(\d+(?:\.\d+)?)$/)
+		if (!match) return null
+		ratePath.push({
+			year: Number(match[1]),
+			month: match[2] !== undefined ? Number(match[2]) : undefined,
+			rate: Number(match[3]),
 		})
-
-		if (balance <= 0) break // Stop if loan is fully paid
-	}
-
-	return { yearlyData, monthlyPayment }
-}
-
-// Helper function to validate scenario inputs
-const validateScenarioInputs = (
-	homePrice: number,
-	downPaymentInput: number,
-	downPaymentType: 'amount' | 'percent',
-	interestRate: number,
-	term: number,
-	existingScenarioNames: string[],
-	newName?: string
-): {
-	isValid: boolean
-	message: string
-	actualDownPayment?: number
-	principal?: number
-	scenarioName?: string
-} => {
-	const scenarioName =
-		newName?.trim() || `Scenario ${existingScenarioNames.length + 1}`
-	if (newName && existingScenarioNames.includes(scenarioName)) {
-		return {
-			isValid: false,
-			message: `Scenario name "${scenarioName}" already exists. Please choose a unique name.`,
-		}
-	}
-
-	const actualDownPayment = getActualDownPayment(
-		homePrice,
-		downPaymentInput,
-		downPaymentType
-	)
-
-	if (
-		downPaymentType === 'percent' &&
-		(downPaymentInput < 0 || downPaymentInput > 100)
-	) {
-		return {
-			isValid: false,
-			message: 'Down payment percentage must be between 0 and 100.',
-		}
-	}
-	if (actualDownPayment < 0) {
-		return { isValid: false, message: 'Down payment cannot be negative.' }
-	}
-	if (actualDownPayment > homePrice) {
-		return {
-			isValid: false,
-			message: 'Down payment cannot be greater than the home price.',
-		}
-	}
-
-	const principal = homePrice - actualDownPayment
-	if (principal === 0 && interestRate !== 0) {
-		return {
-			isValid: false,
-			message:
-				'If down payment covers the full home price (0 principal), the interest rate must be 0.',
-		}
-	}
-	if (interestRate < 0) {
-		return { isValid: false, message: 'Interest rate cannot be negative.' }
-	}
-	if (term <= 0) {
-		return { isValid: false, message: 'Term must be positive.' }
-	}
-
-	return {
-		isValid: true,
-		message: '',
-		actualDownPayment,
-		principal,
-		scenarioName,
 	}
+	return ratePath
 }
 
-// Helper function to create initial scenarios from config
-const createInitialScenariosFromConfig = (
-	homePrice: number,
-	initialScenarioConfigs: ConfigData['initialScenarios']
-): Scenario[] => {
-	const initialScenarios: Scenario[] = []
-
-	initialScenarioConfigs.forEach((config) => {
-		// Validate inputs *without* checking for name uniqueness against the initial list
-		const validation = validateScenarioInputs(
-			homePrice,
-			config.downPaymentInput,
-			config.downPaymentType,
-			config.interestRate,
-			config.term,
-			[], // Pass an empty array to bypass uniqueness check for initial load
-			config.name // Still pass name to get it back if needed, but uniqueness won't be checked against itself
-		)
-
-		if (
-			!validation.isValid ||
-			validation.principal === undefined ||
-			validation.actualDownPayment === undefined
-		) {
-			console.error(
-				`Invalid configuration for scenario ${config.name}: ${validation.message}. Skipping.`
-			)
-			return // Skip this scenario
-		}
-
-		const calculationResult = calculateMortgageAmortization(
-			validation.principal,
-			config.interestRate,
-			config.term
-		)
-
-		if (calculationResult) {
-			initialScenarios.push({
-				name: config.name, // Use original config name
-				downPayment: validation.actualDownPayment,
-				downPaymentInput: config.downPaymentInput,
-				downPaymentType: config.downPaymentType,
-				interestRate: config.interestRate,
-				term: config.term,
-				yearlyData: calculationResult.yearlyData,
-				monthlyPayment: calculationResult.monthlyPayment,
-			})
-		} else {
-			console.error(
-				`Failed to calculate amortization for scenario ${config.name}. Skipping.`
-			)
-		}
-	})
-
-	return initialScenarios
-}
-
-// Helper function to calculate yearly updates for a single scenario
-const calculateYearlyScenarioUpdate = (
-	scenario: Scenario,
-	year: number,
-	maxAnnualCost: number,
-	previousCumulativeValue: number,
-	initialInvestmentValue: number,
-	investmentRate: number
-): Partial<YearlyPaymentData> => {
-	const dataForYear = scenario.yearlyData?.find((d) => d.year === year)
-	const dataForPreviousYear = scenario.yearlyData?.find(
-		(d) => d.year === year - 1
-	)
-	const yearlyProfit = previousCumulativeValue * investmentRate
-
-	let investmentAmount = 0
-	let currentCumulativeValue = 0
-	let totalNetWorth = 0
-	let totalPrincipalPaid = dataForPreviousYear?.totalPrincipalPaid ?? 0 // Carry over if ended
-	let totalInterestPaid = dataForPreviousYear?.totalInterestPaid ?? 0 // Carry over if ended
-
-	if (dataForYear && scenario.term >= year) {
-		// Active mortgage year
-		investmentAmount =
-			maxAnnualCost > 0 ? maxAnnualCost - dataForYear.annualCost : 0
-		currentCumulativeValue =
-			previousCumulativeValue * (1 + investmentRate) + investmentAmount
-		totalPrincipalPaid = dataForYear.totalPrincipalPaid
-		totalInterestPaid = dataForYear.totalInterestPaid
-		totalNetWorth =
-			scenario.downPayment + totalPrincipalPaid + currentCumulativeValue
-	} else {
-		// Scenario ended or data missing for the year (treat as ended)
-		investmentAmount = 0 // No mortgage cost difference to invest
-		currentCumulativeValue = previousCumulativeValue * (1 + investmentRate)
-		// Use the last known principal paid if the scenario ended previously
-		const lastData = scenario.yearlyData?.[scenario.yearlyData.length - 1]
-		totalPrincipalPaid = lastData?.totalPrincipalPaid ?? totalPrincipalPaid // Use last known if available
-		totalInterestPaid = lastData?.totalInterestPaid ?? totalInterestPaid // Use last known if available
-		totalNetWorth =
-			scenario.downPayment + totalPrincipalPaid + currentCumulativeValue
-	}
-
-	// Calculate Year-over-Year Change ($)
-	let prevNetWorth: number
-	if (year === 1) {
-		prevNetWorth = scenario.downPayment + initialInvestmentValue
-	} else {
-		prevNetWorth = dataForPreviousYear?.totalNetWorth ?? 0
-	}
-	const netWorthDifference = totalNetWorth - prevNetWorth
-
-	return {
-		investmentDifference: investmentAmount,
-		cumulativeInvestmentValue: currentCumulativeValue,
-		investmentProfitYearly: yearlyProfit,
-		totalNetWorth: totalNetWorth,
-		netWorthDifference: isFinite(netWorthDifference) ? netWorthDifference : 0,
-		// Ensure these are carried over correctly for placeholder data
-		totalPrincipalPaid: totalPrincipalPaid,
-		totalInterestPaid: totalInterestPaid,
+// Parse an investment return path typed as "year:return" pairs, e.g.
+// "1:7, 11:5, 21:4". Returns null if any entry is malformed.
+const parseReturnPath = (text: string): InvestmentReturnChange[] | null => {
+	const entries = text
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry !== '')
+	const returnPath: InvestmentReturnChange[] = []
+	for (const entry of entries) {
+		const match = entry.match(/^(\d+)\s*:\s*(-?\d+(?:\.\d+)?)$/)
+		if (!match) return null
+		returnPath.push({ year: Number(match[1]), rate: Number(match[2]) })
 	}
+	return returnPath
 }
 
-// Helper function to ensure yearly data exists up to maxYears
-const ensureYearlyDataExists = (
-	scenario: Scenario,
-	year: number,
-	calculatedUpdate: Partial<YearlyPaymentData>
-) => {
-	let dataForYear = scenario.yearlyData?.find((d) => d.year === year)
-	if (!dataForYear) {
-		if (!scenario.yearlyData) scenario.yearlyData = []
-		// Create placeholder if it doesn't exist (scenario ended)
-		dataForYear = {
-			year: year,
-			beginningBalance: 0,
-			interestPaidYearly: 0,
-			principalPaidYearly: 0,
-			endingBalance: 0,
-			annualCost: 0,
-			// Populate from calculated update or defaults
-			totalPrincipalPaid: calculatedUpdate.totalPrincipalPaid ?? 0,
-			totalInterestPaid: calculatedUpdate.totalInterestPaid ?? 0,
-			investmentDifference: calculatedUpdate.investmentDifference ?? 0,
-			cumulativeInvestmentValue:
-				calculatedUpdate.cumulativeInvestmentValue ?? 0,
-			investmentProfitYearly: calculatedUpdate.investmentProfitYearly ?? 0,
-			totalNetWorth: calculatedUpdate.totalNetWorth ?? 0,
-			netWorthDifference: calculatedUpdate.netWorthDifference ?? 0,
-		}
-		scenario.yearlyData.push(dataForYear)
-	} else {
-		// Update existing data entry
-		Object.assign(dataForYear, calculatedUpdate)
-	}
-	return dataForYear
+// Format a return path back into the "year:return" text parsed above
+const formatReturnPath = (returnPath: InvestmentReturnChange[] = []): string =>
+	returnPath.map((change) => `${change.year}:${change.rate}`).join(', ')
+
+// Used when there's no config.yaml, or for values it leaves out
+const DEFAULT_HOME_PRICE = 500000
+const DEFAULT_INITIAL_INVESTMENTS = 100000
+const DEFAULT_CONFIG: ConfigData = {
+	homePrice: DEFAULT_HOME_PRICE,
+	initialInvestments: DEFAULT_INITIAL_INVESTMENTS,
+	initialScenarios: [],
 }
 
-// Helper function to calculate performance percentage for a given year
-const calculatePerformancePercentage = (
-	processedScenarios: Scenario[],
-	year: number,
-	maxNetWorthThisYear: number
-) => {
-	if (!isFinite(maxNetWorthThisYear) || maxNetWorthThisYear === -Infinity) {
-		processedScenarios.forEach((scenario) => {
-			const dataForYear = scenario.yearlyData?.find((d) => d.year === year)
-			if (dataForYear) dataForYear.performancePercentage = 0
-		})
-		return
-	}
-
-	processedScenarios.forEach((scenario) => {
-		const dataForYear = scenario.yearlyData?.find((d) => d.year === year)
-		if (dataForYear && dataForYear.totalNetWorth !== undefined) {
-			const denominator = Math.abs(maxNetWorthThisYear)
-			const performance =
-				denominator === 0
-					? dataForYear.totalNetWorth === 0
-						? 0
-						: Infinity // Or handle as appropriate if max is 0 but current isn't
-					: ((dataForYear.totalNetWorth - maxNetWorthThisYear) / denominator) *
-					  100
-			dataForYear.performancePercentage = isFinite(performance)
-				? performance
-				: performance > 0
-				? 100 // Cap positive infinity
-				: -100 // Cap negative infinity
-		} else if (dataForYear) {
-			dataForYear.performancePercentage = 0 // Default if net worth is missing
-		}
-	})
-}
+// Dash styles available for chart lines, one per metric
+type ChartLineStyle =
+	| 'solid'
+	| 'dashed'
+	| 'dotted'
+	| 'dash-dot'
+	| 'short-dash'
+	| 'long-dash'
+	| 'dash-dot-dot'
 
 function App() {
 	// State to hold the loaded config data
 	const [configData, setConfigData] = useState<ConfigData | null>(null)
 	const [loadingConfig, setLoadingConfig] = useState(true)
 	const [configError, setConfigError] = useState<string | null>(null)
+	// Problems that don't stop config.yaml loading, e.g. an unrecognized field
+	const [configWarnings, setConfigWarnings] = useState<string[]>([])
 
 	// Fetch and parse the YAML config file on component mount
 	useEffect(() => {
@@ -488,17 +185,16 @@ function App() {
 					return
 				}
 				try {
-					const loadedConfig = jsyaml.load(yamlText) as ConfigData
-					if (
-						!loadedConfig ||
-						typeof loadedConfig !== 'object' ||
-						typeof loadedConfig.homePrice !== 'number' ||
-						typeof loadedConfig.initialInvestments !== 'number' ||
-						!Array.isArray(loadedConfig.initialScenarios)
-					) {
-						throw new Error('Invalid YAML structure')
+					// Core schema keeps dates such as firstPaymentDate as plain strings
+					const loadedConfig = jsyaml.load(yamlText, {
+						schema: jsyaml.CORE_SCHEMA,
+					})
+					const { errors, warnings } = checkConfigData(loadedConfig)
+					if (errors.length > 0) {
+						throw new Error(errors.join('; '))
 					}
-					setConfigData(loadedConfig)
+					setConfigWarnings(warnings)
+					setConfigData(loadedConfig as ConfigData)
 					setConfigError(null)
 				} catch (e: unknown) {
 					console.error('Error parsing YAML:', e)
@@ -523,105 +219,541 @@ function App() {
 			})
 	}, []) // Empty dependency array ensures this runs only once on mount
 
+	// A comparison opened from a shared link, which takes precedence over config.yaml
+	const [sharedConfig, setSharedConfig] = useState<ConfigData | null>(null)
+	const [loadingSharedLink, setLoadingSharedLink] = useState(true)
+	const [sharedLinkError, setSharedLinkError] = useState<string | null>(null)
+
+	// Decode a shared link on mount, then drop it from the address bar so a
+	// reload doesn't open it again as another workspace
+	useEffect(() => {
+		decodeShareLink(window.location.hash)
+			.then(({ config, error }) => {
+				setSharedConfig(config ?? null)
+				setSharedLinkError(error ?? null)
+				if (window.location.hash) {
+					window.history.replaceState(
+						null,
+						'',
+						window.location.pathname + window.location.search
+					)
+				}
+			})
+			.finally(() => {
+				setLoadingSharedLink(false)
+			})
+	}, [])
+
 	// Initialize state *after* config is loaded or loading fails
 	// Use default values initially
-	const DEFAULT_HOME_PRICE = 500000
-	const DEFAULT_INITIAL_INVESTMENTS = 100000
-
 	const [homePrice, setHomePrice] = useState<number>(DEFAULT_HOME_PRICE)
 	const [initialInvestments, setInitialInvestments] = useState<number>(
 		DEFAULT_INITIAL_INVESTMENTS
 	)
 	const [scenarios, setScenarios] = useState<Scenario[]>([])
+	const [appreciationRate, setAppreciationRate] = useState<number>(0)
+	const [investmentReturn, setInvestmentReturn] = useState<number>(
+		DEFAULT_INVESTMENT_RETURN
+	)
+	const [investmentReturnPathText, setInvestmentReturnPathText] =
+		useState<string>('')
+	const [investmentTax, setInvestmentTax] = useState<InvestmentTaxSettings>(
+		DEFAULT_INVESTMENT_TAX
+	)
+	const [monteCarloSettings, setMonteCarloSettings] =
+		useState<MonteCarloSettings>(DEFAULT_MONTE_CARLO_SETTINGS)
+	const [inflationRate, setInflationRate] = useState<number>(
+		DEFAULT_INFLATION_RATE
+	)
+	// Show figures in today's dollars instead of nominal dollars
+	const [showRealDollars, setShowRealDollars] = useState<boolean>(false)
+	// Show the printable report in place of the app
+	const [showReport, setShowReport] = useState<boolean>(false)
+	const [ownershipCosts, setOwnershipCosts] = useState<OwnershipCosts>(
+		DEFAULT_OWNERSHIP_COSTS
+	)
+	const [closingCosts, setClosingCosts] = useState<ClosingCosts>(
+		DEFAULT_CLOSING_COSTS
+	)
+	const [sale, setSale] = useState<SaleSettings>(DEFAULT_SALE_SETTINGS)
+
+	// Helper function to replace every input with a config, from config.yaml or a
+	// saved workspace. Invalid sections are logged and fall back to defaults.
+	const applyConfig = useCallback((config: ConfigData) => {
+		setHomePrice(config.homePrice)
+		setInitialInvestments(config.initialInvestments)
+		const ownershipCostsError = validateOwnershipCosts(config.ownershipCosts)
+		if (ownershipCostsError) {
+			console.error(
+				`Invalid ownershipCosts in config: ${ownershipCostsError}. Using defaults.`
+			)
+		}
+		setOwnershipCosts({
+			...DEFAULT_OWNERSHIP_COSTS,
+			...(ownershipCostsError ? {} : config.ownershipCosts),
+		})
+		const closingCostsError = validateClosingCosts(config.closingCosts)
+		if (closingCostsError) {
+			console.error(
+				`Invalid closingCosts in config: ${closingCostsError}. Using defaults.`
+			)
+		}
+		setClosingCosts({
+			...DEFAULT_CLOSING_COSTS,
+			...(closingCostsError ? {} : config.closingCosts),
+		})
+		const saleError = validateSaleSettings(config.sale)
+		if (saleError) {
+			console.error(`Invalid sale in config: ${saleError}. Using defaults.`)
+		}
+		setSale({
+			...DEFAULT_SALE_SETTINGS,
+			...(saleError ? {} : config.sale),
+		})
+		const appreciationRateError = validateAppreciationRate(
+			config.appreciationRate
+		)
+		if (appreciationRateError) {
+			console.error(
+				`Invalid appreciationRate in config: ${appreciationRateError}. Using 0%.`
+			)
+		}
+		setAppreciationRate(
+			appreciationRateError ? 0 : config.appreciationRate ?? 0
+		)
+		const investmentReturnError = validateInvestmentReturn(
+			config.investmentReturn,
+			config.investmentReturnPath
+		)
+		if (investmentReturnError) {
+			console.error(
+				`Invalid investmentReturn in config: ${investmentReturnError}. Using ${DEFAULT_INVESTMENT_RETURN}%.`
+			)
+		}
+		setInvestmentReturn(
+			investmentReturnError
+				? DEFAULT_INVESTMENT_RETURN
+				: config.investmentReturn ?? DEFAULT_INVESTMENT_RETURN
+		)
+		setInvestmentReturnPathText(
+			investmentReturnError ? '' : formatReturnPath(config.investmentReturnPath)
+		)
+		const investmentTaxError = validateInvestmentTax(config.investmentTax)
+		if (investmentTaxError) {
+			console.error(
+				`Invalid investmentTax in config: ${investmentTaxError}. Using defaults.`
+			)
+		}
+		setInvestmentTax({
+			...DEFAULT_INVESTMENT_TAX,
+			...(investmentTaxError ? {} : config.investmentTax),
+		})
+		const monteCarloError = validateMonteCarloSettings(config.monteCarlo)
+		if (monteCarloError) {
+			console.error(
+				`Invalid monteCarlo in config: ${monteCarloError}. Using defaults.`
+			)
+		}
+		setMonteCarloSettings({
+			...DEFAULT_MONTE_CARLO_SETTINGS,
+			...(monteCarloError ? {} : config.monteCarlo),
+		})
+		const inflationRateError = validateInflationRate(config.inflationRate)
+		if (inflationRateError) {
+			console.error(
+				`Invalid inflationRate in config: ${inflationRateError}. Using ${DEFAULT_INFLATION_RATE}%.`
+			)
+		}
+		setInflationRate(
+			inflationRateError
+				? DEFAULT_INFLATION_RATE
+				: config.inflationRate ?? DEFAULT_INFLATION_RATE
+		)
+		const { scenarios: initialScenarios, errors } =
+			createInitialScenariosFromConfig(
+				config.homePrice,
+				config.initialScenarios
+			)
+		errors.forEach((error) => console.error(error))
+		setScenarios(initialScenarios)
+	}, [])
+
+	// Saved workspaces, each with its own inputs
+	const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+	const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(
+		null
+	)
 
-	// Effect to update state based on loaded config OR ensure defaults are set if loading finished without valid config
+	// Once config.yaml and any shared link have loaded (or failed), restore the
+	// saved workspaces. A shared link opens as a workspace of its own; otherwise
+	// only a first visit, with nothing saved yet, starts from config.yaml.
 	useEffect(() => {
-		if (!loadingConfig) {
-			// Only run after loading attempt is finished
-			if (configData) {
-				setHomePrice(configData.homePrice)
-				setInitialInvestments(configData.initialInvestments)
-				const initialScenarios = createInitialScenariosFromConfig(
-					configData.homePrice,
-					configData.initialScenarios
-				)
-				setScenarios(initialScenarios)
-			} else {
-				// If loading finished and configData is still null (e.g., 404 or parse error)
-				setHomePrice(DEFAULT_HOME_PRICE)
-				setInitialInvestments(DEFAULT_INITIAL_INVESTMENTS)
-				setScenarios([]) // Ensure empty scenarios
-			}
+		if (loadingConfig || loadingSharedLink) return
+		const saved = loadWorkspaces()
+		if (sharedConfig) {
+			const savedWorkspaces = saved?.workspaces ?? []
+			const workspace = createWorkspace(
+				getUniqueWorkspaceName('Shared comparison', savedWorkspaces),
+				sharedConfig
+			)
+			setWorkspaces([...savedWorkspaces, workspace])
+			setActiveWorkspaceId(workspace.id)
+			applyConfig(workspace.config)
+		} else if (saved) {
+			const activeWorkspace = saved.workspaces.find(
+				(workspace) => workspace.id === saved.activeWorkspaceId
+			)
+			setWorkspaces(saved.workspaces)
+			setActiveWorkspaceId(saved.activeWorkspaceId)
+			applyConfig(activeWorkspace?.config ?? DEFAULT_CONFIG)
+		} else {
+			const workspace = createWorkspace(
+				'My Workspace',
+				configData ?? DEFAULT_CONFIG
+			)
+			setWorkspaces([workspace])
+			setActiveWorkspaceId(workspace.id)
+			applyConfig(workspace.config)
 		}
-	}, [configData, loadingConfig]) // Rerun when configData or loadingConfig changes
+	}, [configData, loadingConfig, sharedConfig, loadingSharedLink, applyConfig])
 
 	// State for the new scenario form
-	// Removed newScenarioType, newInitialMonthlyRent, newAnnualRentIncrease
 	const [newScenarioName, setNewScenarioName] = useState<string>('')
+	const [newScenarioType, setNewScenarioType] =
+		useState<ScenarioType>('mortgage')
+	const [newInitialMonthlyRent, setNewInitialMonthlyRent] =
+		useState<number>(2500)
+	const [newAnnualRentIncrease, setNewAnnualRentIncrease] = useState<number>(3)
+	const [newRentersInsurance, setNewRentersInsurance] = useState<number>(300)
 	const [newDownPaymentType, setNewDownPaymentType] = useState<
 		'amount' | 'percent'
 	>('percent')
 	const [newDownPaymentValue, setNewDownPaymentValue] = useState<number>(20)
 	const [newInterestRate, setNewInterestRate] = useState<number>(4.19)
 	const [newTerm, setNewTerm] = useState<number>(30)
+	const [newRateTermYears, setNewRateTermYears] = useState<number>(0)
+	const [newRenewalRate, setNewRenewalRate] = useState<number>(4.19)
+	const [newIsVariableRate, setNewIsVariableRate] = useState<boolean>(false)
+	const [newRatePathText, setNewRatePathText] = useState<string>('')
+	const [newVariablePaymentMode, setNewVariablePaymentMode] =
+		useState<VariablePaymentMode>('floating')
+	const [newFirstPaymentDate, setNewFirstPaymentDate] = useState<string>(
+		getDefaultFirstPaymentDate()
+	)
+	const [newCompounding, setNewCompounding] =
+		useState<CompoundingFrequency>('monthly')
+	const [newPaymentFrequency, setNewPaymentFrequency] =
+		useState<PaymentFrequency>('monthly')
+	const [newMortgageInsuranceType, setNewMortgageInsuranceType] =
+		useState<MortgageInsuranceType>('none')
+	const [newExtraMonthlyPayment, setNewExtraMonthlyPayment] =
+		useState<number>(0)
+	const [newExtraPaymentStartYear, setNewExtraPaymentStartYear] =
+		useState<number>(1)
+	const [newLumpSumPrepayments, setNewLumpSumPrepayments] = useState<
+		LumpSumPrepayment[]
+	>([])
+	const [newRefinances, setNewRefinances] = useState<RefinanceEvent[]>([])
+	// Per-scenario ownership costs, used instead of the global ones when set
+	const [newOwnershipCosts, setNewOwnershipCosts] =
+		useState<OwnershipCosts | null>(null)
+	const [newClosingCosts, setNewClosingCosts] = useState<ClosingCosts | null>(
+		null
+	)
+	const [newSale, setNewSale] = useState<SaleSettings | null>(null)
+	// Per-scenario home price, used instead of the global price when set
+	const [newHomePrice, setNewHomePrice] = useState<number | null>(null)
+	// Per-scenario home appreciation, used instead of the global rate when set
+	const [newAppreciationRate, setNewAppreciationRate] = useState<number | null>(
+		null
+	)
+	// Per-scenario investment return, used instead of the global return and path when set
+	const [newInvestmentReturn, setNewInvestmentReturn] = useState<number | null>(
+		null
+	)
+	const [newInvestmentReturnPathText, setNewInvestmentReturnPathText] =
+		useState<string>('')
+	// Per-scenario account and tax settings, used instead of the global ones when set
+	const [newInvestmentTax, setNewInvestmentTax] =
+		useState<InvestmentTaxSettings | null>(null)
+
+	// Key (`${scenarioName}-${year}`) of the table row whose payment schedule is expanded
+	const [expandedScheduleKey, setExpandedScheduleKey] = useState<string | null>(
+		null
+	)
 
-	// Find the maximum term across scenarios
-	const maxYears = Math.max(30, ...scenarios.map((s) => s.term)) // Simplified maxYears
-	const INVESTMENT_RATE = 0.07 // 7% annual growth
+	// Find the maximum loan length across scenarios. Fixed-payment variables can
+	// run past their term, but one never paid off (it has a warning) would run to
+	// the amortization limit, so it only counts for its term
+	const maxYears = Math.max(
+		30,
+		...scenarios.map((s) => {
+			const lastData = s.yearlyData[s.yearlyData.length - 1]
+			const isPaidOff = (lastData?.endingBalance ?? 0) <= 0
+			return Math.max(s.term, isPaidOff ? s.payoffYear : 0)
+		})
+	)
+	// Global return path; an invalid one is flagged next to the input and ignored
+	const investmentReturnPath = useMemo(
+		() => parseReturnPath(investmentReturnPathText),
+		[investmentReturnPathText]
+	)
 
-	const addScenario = () => {
-		const validation = validateScenarioInputs(
+	// The current inputs in config.yaml's shape, saved to the active workspace
+	const currentConfig: ConfigData = useMemo(
+		() => ({
 			homePrice,
-			newDownPaymentValue,
-			newDownPaymentType,
-			newInterestRate,
-			newTerm,
-			scenarios.map((s) => s.name), // Pass current scenario names
-			newScenarioName // Pass the potential new name
+			initialInvestments,
+			appreciationRate,
+			investmentReturn,
+			investmentReturnPath: investmentReturnPath ?? undefined,
+			monteCarlo: monteCarloSettings,
+			investmentTax,
+			inflationRate,
+			ownershipCosts,
+			closingCosts,
+			sale,
+			initialScenarios: scenarios.map(getScenarioConfig),
+		}),
+		[
+			homePrice,
+			initialInvestments,
+			appreciationRate,
+			investmentReturn,
+			investmentReturnPath,
+			monteCarloSettings,
+			investmentTax,
+			inflationRate,
+			ownershipCosts,
+			closingCosts,
+			sale,
+			scenarios,
+		]
+	)
+
+	// Keep the active workspace in step with the inputs
+	useEffect(() => {
+		if (!activeWorkspaceId) return
+		setWorkspaces((previous) =>
+			previous.map((workspace) =>
+				workspace.id === activeWorkspaceId
+					? { ...workspace, config: currentConfig }
+					: workspace
+			)
+		)
+	}, [currentConfig, activeWorkspaceId])
+
+	// Save after every change, once the workspaces have been restored
+	useEffect(() => {
+		if (!activeWorkspaceId) return
+		saveWorkspaces({ version: 1, activeWorkspaceId, workspaces })
+	}, [workspaces, activeWorkspaceId])
+
+	const activeWorkspaceName =
+		workspaces.find((w) => w.id === activeWorkspaceId)?.name ?? ''
+
+	const switchWorkspace = (id: string) => {
+		const workspace = workspaces.find((w) => w.id === id)
+		if (!workspace) return
+		setActiveWorkspaceId(workspace.id)
+		setExpandedScheduleKey(null)
+		applyConfig(workspace.config)
+	}
+
+	// Helper function to add a workspace and switch to it
+	const openNewWorkspace = (workspace: Workspace) => {
+		setWorkspaces([...workspaces, workspace])
+		setActiveWorkspaceId(workspace.id)
+		setExpandedScheduleKey(null)
+		applyConfig(workspace.config)
+	}
+
+	// A new workspace starts over from config.yaml, like a first visit
+	const addWorkspace = () => {
+		openNewWorkspace(
+			createWorkspace(
+				getUniqueWorkspaceName('Workspace', workspaces),
+				configData ?? DEFAULT_CONFIG
+			)
+		)
+	}
+
+	// An imported file opens as a workspace of its own, named after the file
+	const importWorkspace = (config: ConfigData, name: string) => {
+		openNewWorkspace(
+			createWorkspace(getUniqueWorkspaceName(name, workspaces), config)
+		)
+	}
+
+	const duplicateWorkspace = () => {
+		const activeWorkspace = workspaces.find((w) => w.id === activeWorkspaceId)
+		if (!activeWorkspace) return
+		openNewWorkspace(
+			createWorkspace(
+				getUniqueWorkspaceName(`${activeWorkspace.name} (copy)`, workspaces),
+				currentConfig
+			)
+		)
+	}
+
+	const renameWorkspace = (name: string) => {
+		setWorkspaces(
+			workspaces.map((workspace) =>
+				workspace.id === activeWorkspaceId ? { ...workspace, name } : workspace
+			)
 		)
+	}
 
+	const deleteWorkspace = () => {
+		const activeWorkspace = workspaces.find((w) => w.id === activeWorkspaceId)
 		if (
-			!validation.isValid ||
-			validation.principal === undefined ||
-			validation.actualDownPayment === undefined ||
-			validation.scenarioName === undefined
+			!activeWorkspace ||
+			!window.confirm(`Delete the workspace "${activeWorkspace.name}"?`)
 		) {
-			alert(validation.message)
 			return
 		}
+		const remaining = workspaces.filter((w) => w.id !== activeWorkspace.id)
+		// Always keep one workspace, starting over from config.yaml if needed
+		const nextWorkspace =
+			remaining[0] ??
+			createWorkspace('My Workspace', configData ?? DEFAULT_CONFIG)
+		setWorkspaces(remaining.length > 0 ? remaining : [nextWorkspace])
+		setActiveWorkspaceId(nextWorkspace.id)
+		setExpandedScheduleKey(null)
+		applyConfig(nextWorkspace.config)
+	}
 
-		const calculationResult = calculateMortgageAmortization(
-			validation.principal,
-			newInterestRate,
-			newTerm
-		)
+	const addScenario = () => {
+		const isRent = newScenarioType === 'rent'
+		const ratePath =
+			!isRent && newIsVariableRate ? parseRatePath(newRatePathText) : []
+		if (ratePath === null) {
+			alert(
+				'Rate changes must be "year:rate" pairs separated by commas, e.g. "2:5.5, 3.6:6".'
+			)
+			return
+		}
 
-		if (!calculationResult) {
+		const scenarioReturnPath =
+			newInvestmentReturn !== null
+				? parseReturnPath(newInvestmentReturnPathText)
+				: []
+		if (scenarioReturnPath === null) {
 			alert(
-				'Could not calculate mortgage amortization. Please check input values.'
+				'Return changes must be "year:return" pairs separated by commas, e.g. "1:7, 11:5".'
 			)
 			return
 		}
+		const investmentOverrides = {
+			...(newInvestmentReturn !== null
+				? {
+						investmentReturn: newInvestmentReturn,
+						investmentReturnPath:
+							scenarioReturnPath.length > 0 ? scenarioReturnPath : undefined,
+				  }
+				: {}),
+			investmentTax: newInvestmentTax ?? undefined,
+		}
+
+		// Renting only needs the rent inputs; the mortgage fields are ignored
+		const input: Omit<ScenarioConfig, 'name'> = isRent
+			? {
+					type: 'rent',
+					downPaymentInput: 0,
+					downPaymentType: 'amount',
+					interestRate: 0,
+					term: 0,
+					monthlyRent: newInitialMonthlyRent,
+					annualRentIncrease: newAnnualRentIncrease,
+					rentersInsurance: newRentersInsurance,
+					...investmentOverrides,
+			  }
+			: {
+					downPaymentInput: newDownPaymentValue,
+					downPaymentType: newDownPaymentType,
+					interestRate: newInterestRate,
+					term: newTerm,
+					rateTerms:
+						newRateTermYears > 0 ? [{ years: newRateTermYears }] : undefined,
+					renewalRate: newRateTermYears > 0 ? newRenewalRate : undefined,
+					variableRate: newIsVariableRate
+						? { ratePath, paymentMode: newVariablePaymentMode }
+						: undefined,
+					firstPaymentDate: newFirstPaymentDate,
+					compounding: newCompounding,
+					paymentFrequency: newPaymentFrequency,
+					mortgageInsurance:
+						newMortgageInsuranceType !== 'none'
+							? { type: newMortgageInsuranceType }
+							: undefined,
+					recurringPrepayments:
+						newExtraMonthlyPayment > 0
+							? [
+									{
+										amount: newExtraMonthlyPayment,
+										startYear: newExtraPaymentStartYear,
+									},
+							  ]
+							: undefined,
+					lumpSumPrepayments:
+						newLumpSumPrepayments.length > 0
+							? newLumpSumPrepayments
+							: undefined,
+					refinances: newRefinances.length > 0 ? newRefinances : undefined,
+					homePrice: newHomePrice ?? undefined,
+					ownershipCosts: newOwnershipCosts ?? undefined,
+					closingCosts: newClosingCosts ?? undefined,
+					sale: newSale ?? undefined,
+					appreciationRate: newAppreciationRate ?? undefined,
+					...investmentOverrides,
+			  }
+
+		const result = createScenario(
+			homePrice,
+			input,
+			scenarios.map((s) => s.name), // Pass current scenario names
+			newScenarioName // Pass the potential new name
+		)
 
-		const newScenario: Scenario = {
-			name: validation.scenarioName, // Use validated/generated name
-			downPayment: validation.actualDownPayment,
-			downPaymentInput: newDownPaymentValue,
-			downPaymentType: newDownPaymentType,
-			interestRate: newInterestRate,
-			term: newTerm,
-			yearlyData: calculationResult.yearlyData,
-			monthlyPayment: calculationResult.monthlyPayment,
+		if (result.error !== undefined) {
+			alert(result.error)
+			return
 		}
+		const newScenario = result.scenario
 
 		setScenarios([...scenarios, newScenario])
 
 		// Reset form defaults
 		setNewScenarioName('') // Reset name field
+		setNewScenarioType('mortgage')
+		setNewInitialMonthlyRent(2500)
+		setNewAnnualRentIncrease(3)
+		setNewRentersInsurance(300)
+		setNewHomePrice(null)
 		setNewDownPaymentType('percent')
 		setNewDownPaymentValue(20)
 		setNewInterestRate(4.19)
 		setNewTerm(30)
+		setNewRateTermYears(0)
+		setNewRenewalRate(4.19)
+		setNewIsVariableRate(false)
+		setNewRatePathText('')
+		setNewVariablePaymentMode('floating')
+		setNewFirstPaymentDate(getDefaultFirstPaymentDate())
+		setNewCompounding('monthly')
+		setNewPaymentFrequency('monthly')
+		setNewMortgageInsuranceType('none')
+		setNewExtraMonthlyPayment(0)
+		setNewExtraPaymentStartYear(1)
+		setNewLumpSumPrepayments([])
+		setNewRefinances([])
+		setNewOwnershipCosts(null)
+		setNewClosingCosts(null)
+		setNewSale(null)
+		setNewAppreciationRate(null)
+		setNewInvestmentReturn(null)
+		setNewInvestmentReturnPathText('')
+		setNewInvestmentTax(null)
 	}
 
 	const removeScenario = (indexToRemove: number) => {
@@ -653,8 +785,6 @@ function App() {
 		}).format(value)
 	}
 
-	// Removed formatPercentage function
-
 	const handleDownPaymentTypeChange = (
 		event: React.ChangeEvent<HTMLInputElement>
 	) => {
@@ -666,133 +796,165 @@ function App() {
 			setNewDownPaymentValue(20)
 		} else {
 			// Maybe default to 20% of home price if switching to amount?
-			setNewDownPaymentValue(homePrice * 0.2)
+			setNewDownPaymentValue((newHomePrice ?? homePrice) * 0.2)
 		}
 	}
 
-	// Calculate investment growth data using useMemo (Refactored Logic)
-	const scenariosWithInvestment = useMemo(() => {
-		// Allow calculation even if configData failed to load, using state values.
-		// Only return early if there are truly no scenarios.
-		if (scenarios.length < 1) return []
-
-		const processedScenarios = JSON.parse(
-			JSON.stringify(scenarios)
-		) as Scenario[]
-
-		const initialInvestmentValues: { [scenarioName: string]: number } = {}
-		processedScenarios.forEach((scenario) => {
-			initialInvestmentValues[scenario.name] = Math.max(
-				0,
-				initialInvestments - scenario.downPayment
-			)
-		})
-
-		const currentCumulativeValues = { ...initialInvestmentValues }
-		const calculationMaxYears = maxYears
-
-		for (let year = 1; year <= calculationMaxYears; year++) {
-			// --- Step 1: Find Max Annual Cost for the current year ---
-			let maxAnnualCost = 0
-			processedScenarios.forEach((scenario) => {
-				const dataForYear = scenario.yearlyData?.find((d) => d.year === year)
-				if (dataForYear && scenario.term >= year) {
-					maxAnnualCost = Math.max(maxAnnualCost, dataForYear.annualCost)
-				}
-			})
-
-			let maxNetWorthThisYear = -Infinity
-
-			// --- Step 2: Calculate Investment, Net Worth for each scenario ---
-			processedScenarios.forEach((scenario) => {
-				const previousCumulativeValue =
-					currentCumulativeValues[scenario.name] || 0
-				const initialInvestment = initialInvestmentValues[scenario.name] || 0
-
-				const calculatedUpdate = calculateYearlyScenarioUpdate(
-					scenario,
-					year,
-					maxAnnualCost,
-					previousCumulativeValue,
-					initialInvestment,
-					INVESTMENT_RATE
-				)
-
-				// Ensure data exists and update it
-				const updatedDataForYear = ensureYearlyDataExists(
-					scenario,
-					year,
-					calculatedUpdate
-				)
-
-				// Update cumulative value for the next iteration
-				if (updatedDataForYear.cumulativeInvestmentValue !== undefined) {
-					currentCumulativeValues[scenario.name] =
-						updatedDataForYear.cumulativeInvestmentValue
-				}
+	// Global inputs shared by the deterministic and Monte Carlo comparisons
+	const comparisonOptions: ComparisonOptions = useMemo(
+		() => ({
+			initialInvestments,
+			maxYears,
+			investmentReturn,
+			investmentReturnPath: investmentReturnPath ?? undefined,
+			appreciationRate,
+			ownershipCosts,
+			closingCosts,
+			sale,
+			investmentTax,
+		}),
+		[
+			initialInvestments,
+			maxYears,
+			investmentReturn,
+			investmentReturnPath,
+			appreciationRate,
+			ownershipCosts,
+			closingCosts,
+			sale,
+			investmentTax,
+		]
+	)
 
-				// Track max net worth for performance calculation
-				if (updatedDataForYear.totalNetWorth !== undefined) {
-					maxNetWorthThisYear = Math.max(
-						maxNetWorthThisYear,
-						updatedDataForYear.totalNetWorth
-					)
-				}
-			})
+	const monteCarloError = monteCarloSettings.enabled
+		? validateMonteCarloSettings(monteCarloSettings)
+		: undefined
+	// Only simulate when switched on and the settings are valid
+	const activeMonteCarloSettings = useMemo(
+		() =>
+			monteCarloSettings.enabled && !monteCarloError
+				? monteCarloSettings
+				: null,
+		[monteCarloSettings, monteCarloError]
+	)
 
-			// --- Step 3: Calculate Performance Percentage ---
-			calculatePerformancePercentage(
-				processedScenarios,
-				year,
-				maxNetWorthThisYear
-			)
-		}
+	// Calculate investment growth data (and Monte Carlo percentile bands and
+	// win probabilities) in a Web Worker, keeping the last results while pending
+	const {
+		scenariosWithInvestment: nominalScenariosWithInvestment,
+		monteCarloResult: nominalMonteCarloResult,
+		isPending: isCalculating,
+		progress: calculationProgress,
+		error: calculationError,
+	} = useScenarioCalculations(
+		scenarios,
+		comparisonOptions,
+		activeMonteCarloSettings
+	)
 
-		return processedScenarios
-	}, [scenarios, initialInvestments, maxYears, INVESTMENT_RATE]) // Removed configData
+	// Inflation only changes how results are displayed, so it's applied here
+	// rather than in the worker
+	const displayScenarios = useMemo(
+		() =>
+			adjustScenariosForInflation(scenarios, inflationRate, showRealDollars),
+		[scenarios, inflationRate, showRealDollars]
+	)
+	const scenariosWithInvestment = useMemo(
+		() =>
+			adjustScenariosForInflation(
+				nominalScenariosWithInvestment,
+				inflationRate,
+				showRealDollars
+			),
+		[nominalScenariosWithInvestment, inflationRate, showRealDollars]
+	)
+	// The summary cards show closing costs and the sale, which are only known
+	// after the comparison is calculated. Matched by name (names are unique), so
+	// a card appears as soon as its scenario is added, before results arrive.
+	const summaryScenarios = useMemo(
+		() =>
+			displayScenarios.map(
+				(scenario) =>
+					scenariosWithInvestment.find(
+						(processed) => processed.name === scenario.name
+					) ?? scenario
+			),
+		[displayScenarios, scenariosWithInvestment]
+	)
+	const monteCarloResult = useMemo(
+		() =>
+			nominalMonteCarloResult && showRealDollars
+				? adjustMonteCarloResultForInflation(
+						nominalMonteCarloResult,
+						inflationRate
+				  )
+				: nominalMonteCarloResult,
+		[nominalMonteCarloResult, inflationRate, showRealDollars]
+	)
+	const dollarsLabel = showRealDollars ? " (today's dollars)" : ''
 
 	// Define an interface for the chart data points
 	interface ChartDataPoint {
 		year: string // e.g., "Year 1"
 		// Keys will be dynamically generated like: "ScenarioName_MetricName"
-		[key: string]: number | string | null // Allow dynamic keys holding numbers or null
+		[key: string]: number | number[] | string | null // Allow dynamic keys holding numbers, [low, high] bands or null
 	}
 
 	// Define metrics to display on the chart, memoized for stability
 	const CHART_METRICS: {
-		key: keyof YearlyPaymentData
+		key: YearlyMetricKey
 		name: string
-		style: 'solid' | 'dashed' | 'dotted' | 'dash-dot' | 'short-dash'
+		style: ChartLineStyle
+		appliesToRent: boolean // Loan and home metrics are always 0 when renting
 	}[] = useMemo(() => {
 		return [
-			{ key: 'totalNetWorth', name: 'Net Worth', style: 'solid' as const },
+			{
+				key: 'totalNetWorth',
+				name: 'Net Worth',
+				style: 'solid' as const,
+				appliesToRent: true,
+			},
 			{
 				key: 'totalPrincipalPaid',
 				name: 'Principal Paid',
 				style: 'dashed' as const,
+				appliesToRent: false,
 			},
 			{
 				key: 'totalInterestPaid',
 				name: 'Interest Paid',
 				style: 'dotted' as const,
+				appliesToRent: false,
 			},
 			{
 				key: 'cumulativeInvestmentValue',
 				name: 'Investment Value',
 				style: 'dash-dot' as const,
+				appliesToRent: true,
 			},
 			{
 				key: 'endingBalance',
 				name: 'Ending Balance',
 				style: 'short-dash' as const,
+				appliesToRent: false,
+			},
+			{
+				key: 'homeValue',
+				name: 'Home Value',
+				style: 'long-dash' as const,
+				appliesToRent: false,
+			},
+			{
+				key: 'homeEquity',
+				name: 'Home Equity',
+				style: 'dash-dot-dot' as const,
+				appliesToRent: false,
 			},
 		]
 	}, []) // Empty dependency array ensures this is created only once
 
 	// Helper function to get dash style for chart lines
-	const getStrokeDashArray = (
-		style: 'solid' | 'dashed' | 'dotted' | 'dash-dot' | 'short-dash'
-	): string | undefined => {
+	const getStrokeDashArray = (style: ChartLineStyle): string | undefined => {
 		switch (style) {
 			case 'solid':
 				return undefined
@@ -804,6 +966,10 @@ function App() {
 				return '10 5 2 5'
 			case 'short-dash':
 				return '3 3'
+			case 'long-dash':
+				return '12 4'
+			case 'dash-dot-dot':
+				return '8 3 1 3 1 3'
 			default:
 				return undefined
 		}
@@ -829,6 +995,17 @@ function App() {
 						yearData[`${scenario.name}_${metric.key}`] =
 							dataForYear?.[metric.key] ?? null
 					})
+					// Monte Carlo net worth: 10th-90th percentile band and the median
+					const percentiles = monteCarloResult?.percentiles
+						.find((p) => p.scenarioName === scenario.name)
+						?.years.find((p) => p.year === year)
+					if (percentiles) {
+						yearData[`${scenario.name}_netWorthBand`] = [
+							percentiles.p10,
+							percentiles.p90,
+						]
+						yearData[`${scenario.name}_netWorthMedian`] = percentiles.p50
+					}
 				})
 				data.push(yearData)
 			}
@@ -836,7 +1013,7 @@ function App() {
 		}
 
 		return prepareChartData(scenariosWithInvestment, maxYears)
-	}, [scenariosWithInvestment, maxYears, CHART_METRICS]) // Added CHART_METRICS dependency
+	}, [scenariosWithInvestment, maxYears, CHART_METRICS, monteCarloResult]) // Added CHART_METRICS dependency
 
 	// Define colors for the chart lines
 	const chartColors = useMemo(() => {
@@ -858,10 +1035,25 @@ function App() {
 	}, [scenariosWithInvestment])
 
 	// --- Render Logic ---
-	if (loadingConfig) {
+	if (loadingConfig || loadingSharedLink) {
 		return <></>
 	}
 
+	if (showReport) {
+		return (
+			<ComparisonReport
+				title={activeWorkspaceName}
+				config={currentConfig}
+				scenarios={scenariosWithInvestment}
+				showRealDollars={showRealDollars}
+				formatCurrency={formatCurrency}
+				formatCurrencyForChart={formatCurrencyForChart}
+				chartColors={chartColors}
+				onClose={() => setShowReport(false)}
+			/>
+		)
+	}
+
 	// Display error if one occurred *during loading/parsing*, but still render the app structure
 	// This allows the user to potentially add scenarios even if the initial config failed.
 	// The check for !configData is removed from the main return block below.
@@ -883,6 +1075,48 @@ function App() {
 					Attempting to proceed with default values.
 				</div>
 			)}
+			{configWarnings.length > 0 && (
+				<div className="config-warnings">
+					Configuration Warning: config.yaml loaded, but
+					<ul>
+						{configWarnings.map((warning) => (
+							<li key={warning}>{warning}</li>
+						))}
+					</ul>
+				</div>
+			)}
+			{sharedLinkError && (
+				<div
+					style={{
+						color: 'red',
+						marginBottom: '10px',
+						border: '1px solid red',
+						padding: '10px',
+					}}
+				>
+					Shared Link Error: {sharedLinkError}
+					<br />
+					Continuing without it.
+				</div>
+			)}
+			{activeWorkspaceId && (
+				<WorkspaceBar
+					workspaces={workspaces}
+					activeWorkspaceId={activeWorkspaceId}
+					onSwitch={switchWorkspace}
+					onRename={renameWorkspace}
+					onAdd={addWorkspace}
+					onDuplicate={duplicateWorkspace}
+					onDelete={deleteWorkspace}
+				>
+					<ShareLinkButton config={currentConfig} />
+					<ConfigFileActions
+						config={currentConfig}
+						name={activeWorkspaceName}
+						onImport={importWorkspace}
+					/>
+				</WorkspaceBar>
+			)}
 			{/* --- Global Inputs --- */}
 			<div style={{ display: 'flex', gap: '20px', marginBottom: '10px' }}>
 				<div>
@@ -896,6 +1130,12 @@ function App() {
 							onChange={(e) => {
 								const newPrice = Number(e.target.value)
 								setHomePrice(newPrice)
+								// Scenarios without their own price follow the global one
+								setScenarios(
+									scenarios.map((scenario) =>
+										updateScenarioHomePrice(scenario, newPrice)
+									)
+								)
 								// Optional: Adjust default down payment amount when home price changes
 								if (newDownPaymentType === 'amount') {
 									setNewDownPaymentValue(newPrice * 0.2) // Adjust default amount to 20%
@@ -920,7 +1160,93 @@ function App() {
 					</label>
 				</div>{' '}
 				{/* Close Initial Investments wrapper */}
+				<div>
+					<label>
+						Investment Return (%/yr):
+						<input
+							type="number"
+							value={investmentReturn}
+							onChange={(e) => setInvestmentReturn(Number(e.target.value))}
+							step="0.1"
+						/>
+					</label>
+				</div>
+				<div>
+					<label>
+						Return Changes (year:return):
+						<input
+							type="text"
+							value={investmentReturnPathText}
+							onChange={(e) => setInvestmentReturnPathText(e.target.value)}
+							placeholder="e.g., 11:5, 21:4"
+						/>
+					</label>
+					{investmentReturnPath === null && (
+						<p className="scenario-warning">
+							Use "year:return" pairs separated by commas. Ignoring changes
+							until fixed.
+						</p>
+					)}
+				</div>
+				<div>
+					<label>
+						Home Appreciation (%/yr):
+						<input
+							type="number"
+							value={appreciationRate}
+							onChange={(e) => setAppreciationRate(Number(e.target.value))}
+							step="0.1"
+						/>
+					</label>
+				</div>
+			</div>
+			<div style={{ display: 'flex', gap: '20px', marginBottom: '10px' }}>
+				<div>
+					<label>
+						Inflation (%/yr):
+						<input
+							type="number"
+							value={inflationRate}
+							onChange={(e) => setInflationRate(Number(e.target.value))}
+							step="0.1"
+						/>
+					</label>
+				</div>
+				<div>
+					<label>
+						<input
+							type="checkbox"
+							checked={showRealDollars}
+							onChange={(e) => setShowRealDollars(e.target.checked)}
+						/>
+						Show figures in today's dollars
+					</label>
+				</div>
 			</div>
+			<MonteCarloInputs
+				settings={monteCarloSettings}
+				onChange={setMonteCarloSettings}
+			/>
+			{monteCarloError && <p className="scenario-warning">{monteCarloError}</p>}
+			<h3>Ownership Costs (all scenarios)</h3>
+			<OwnershipCostsInputs
+				costs={ownershipCosts}
+				onChange={setOwnershipCosts}
+			/>
+			<h3>Closing Costs (all purchases)</h3>
+			<ClosingCostsInputs
+				costs={closingCosts}
+				onChange={setClosingCosts}
+				homePrice={homePrice}
+				formatCurrency={formatCurrency}
+			/>
+			<h3>Selling the Home (all purchases)</h3>
+			<SaleInputs sale={sale} onChange={setSale} />
+			<h3>Investment Account & Taxes (all scenarios)</h3>
+			<InvestmentTaxInputs
+				settings={investmentTax}
+				onChange={setInvestmentTax}
+			/>
 			<hr />
 			{/* --- Add New Scenario Form --- (Simplified) */}
 			<AddScenarioForm
@@ -928,6 +1254,14 @@ function App() {
 				scenariosCount={scenarios.length}
 				newScenarioName={newScenarioName}
 				setNewScenarioName={setNewScenarioName}
+				newScenarioType={newScenarioType}
+				setNewScenarioType={setNewScenarioType}
+				newInitialMonthlyRent={newInitialMonthlyRent}
+				setNewInitialMonthlyRent={setNewInitialMonthlyRent}
+				newAnnualRentIncrease={newAnnualRentIncrease}
+				setNewAnnualRentIncrease={setNewAnnualRentIncrease}
+				newRentersInsurance={newRentersInsurance}
+				setNewRentersInsurance={setNewRentersInsurance}
 				newDownPaymentType={newDownPaymentType}
 				setNewDownPaymentType={setNewDownPaymentType} // Pass setter for handler
 				newDownPaymentValue={newDownPaymentValue}
@@ -936,6 +1270,54 @@ function App() {
 				setNewInterestRate={setNewInterestRate}
 				newTerm={newTerm}
 				setNewTerm={setNewTerm}
+				newRateTermYears={newRateTermYears}
+				setNewRateTermYears={setNewRateTermYears}
+				newRenewalRate={newRenewalRate}
+				setNewRenewalRate={setNewRenewalRate}
+				newIsVariableRate={newIsVariableRate}
+				setNewIsVariableRate={setNewIsVariableRate}
+				newRatePathText={newRatePathText}
+				setNewRatePathText={setNewRatePathText}
+				newVariablePaymentMode={newVariablePaymentMode}
+				setNewVariablePaymentMode={setNewVariablePaymentMode}
+				newFirstPaymentDate={newFirstPaymentDate}
+				setNewFirstPaymentDate={setNewFirstPaymentDate}
+				newCompounding={newCompounding}
+				setNewCompounding={setNewCompounding}
+				newPaymentFrequency={newPaymentFrequency}
+				setNewPaymentFrequency={setNewPaymentFrequency}
+				newMortgageInsuranceType={newMortgageInsuranceType}
+				setNewMortgageInsuranceType={setNewMortgageInsuranceType}
+				newExtraMonthlyPayment={newExtraMonthlyPayment}
+				setNewExtraMonthlyPayment={setNewExtraMonthlyPayment}
+				newExtraPaymentStartYear={newExtraPaymentStartYear}
+				setNewExtraPaymentStartYear={setNewExtraPaymentStartYear}
+				newLumpSumPrepayments={newLumpSumPrepayments}
+				setNewLumpSumPrepayments={setNewLumpSumPrepayments}
+				newRefinances={newRefinances}
+				setNewRefinances={setNewRefinances}
+				globalOwnershipCosts={ownershipCosts}
+				newOwnershipCosts={newOwnershipCosts}
+				setNewOwnershipCosts={setNewOwnershipCosts}
+				globalClosingCosts={closingCosts}
+				newClosingCosts={newClosingCosts}
+				setNewClosingCosts={setNewClosingCosts}
+				globalSale={sale}
+				newSale={newSale}
+				setNewSale={setNewSale}
+				newHomePrice={newHomePrice}
+				setNewHomePrice={setNewHomePrice}
+				globalAppreciationRate={appreciationRate}
+				newAppreciationRate={newAppreciationRate}
+				setNewAppreciationRate={setNewAppreciationRate}
+				globalInvestmentReturn={investmentReturn}
+				newInvestmentReturn={newInvestmentReturn}
+				setNewInvestmentReturn={setNewInvestmentReturn}
+				newInvestmentReturnPathText={newInvestmentReturnPathText}
+				setNewInvestmentReturnPathText={setNewInvestmentReturnPathText}
+				globalInvestmentTax={investmentTax}
+				newInvestmentTax={newInvestmentTax}
+				setNewInvestmentTax={setNewInvestmentTax}
 				onAddScenario={addScenario}
 				formatCurrency={formatCurrency}
 				handleDownPaymentTypeChange={handleDownPaymentTypeChange}
@@ -947,12 +1329,13 @@ function App() {
 				<p>No scenarios added yet.</p>
 			) : (
 				<div className="scenario-summaries">
-					{scenarios.map((scenario, index) => (
+					{summaryScenarios.map((scenario, index) => (
 						<ScenarioSummaryCard
 							key={`${scenario.name}-${index}`}
 							scenario={scenario}
 							index={index}
 							onRemove={removeScenario}
+							showRealDollars={showRealDollars}
 							formatCurrency={formatCurrency}
 						/>
 					))}
@@ -960,11 +1343,28 @@ function App() {
 			)}
 			<hr /> {/* Ensure hr is outside the conditional block */}
 			{/* --- Net Worth Chart --- */}
-			<h2>Scenario Comparison Chart</h2> {/* Updated Title */}
+			<h2>Scenario Comparison Chart{dollarsLabel}</h2> {/* Updated Title */}
+			{isCalculating && (
+				<p className="calculation-status">
+					Recalculating
+					{calculationProgress !== null
+						? ` (${Math.round(calculationProgress * 100)}% of simulations)`
+						: ''}
+					...
+				</p>
+			)}
+			{calculationError && (
+				<p className="scenario-warning">
+					Calculation failed: {calculationError}
+				</p>
+			)}
 			{scenariosWithInvestment.length > 0 ? (
-				<div style={{ width: '100%', height: 500, marginBottom: '20px' }}>
+				<div
+					className={isCalculating ? 'calculation-pending' : ''}
+					style={{ width: '100%', height: 500, marginBottom: '20px' }}
+				>
 					<ResponsiveContainer>
-						<LineChart
+						<ComposedChart
 							data={chartData} // Use prepared chartData
 							margin={{
 								top: 5,
@@ -1018,10 +1418,14 @@ function App() {
 									// Define an order for metrics
 									const metricOrder: { [key: string]: number } = {
 										totalNetWorth: 1,
-										cumulativeInvestmentValue: 2,
-										totalPrincipalPaid: 3,
-										endingBalance: 4,
-										totalInterestPaid: 5,
+										netWorthMedian: 2,
+										netWorthBand: 3,
+										homeEquity: 4,
+										homeValue: 5,
+										cumulativeInvestmentValue: 6,
+										totalPrincipalPaid: 7,
+										endingBalance: 8,
+										totalInterestPaid: 9,
 									}
 									return `${scenarioName}_${metricOrder[metric] ?? 99}`
 								}}
@@ -1030,7 +1434,9 @@ function App() {
 							{/* Map scenarios and metrics to Line components using flatMap */}
 							{scenariosWithInvestment.flatMap((scenario) =>
 								// Map over defined metrics for each scenario
-								CHART_METRICS.map((metric) => (
+								CHART_METRICS.filter(
+									(metric) => scenario.type !== 'rent' || metric.appliesToRent
+								).map((metric) => (
 									<Line
 										key={`${scenario.name}_${metric.key}`}
 										type="monotone"
@@ -1044,18 +1450,97 @@ function App() {
 									/>
 								))
 							)}
-						</LineChart>
+							{/* Monte Carlo 10th-90th percentile bands and medians */}
+							{monteCarloResult &&
+								scenariosWithInvestment.flatMap((scenario) => [
+									<Area
+										key={`${scenario.name}_netWorthBand`}
+										type="monotone"
+										dataKey={`${scenario.name}_netWorthBand`}
+										name={`${scenario.name} - Net Worth (10th-90th pct.)`}
+										stroke="none"
+										fill={chartColors[scenario.name]}
+										fillOpacity={0.15}
+										connectNulls
+									/>,
+									<Line
+										key={`${scenario.name}_netWorthMedian`}
+										type="monotone"
+										dataKey={`${scenario.name}_netWorthMedian`}
+										name={`${scenario.name} - Net Worth (median)`}
+										stroke={chartColors[scenario.name]}
+										strokeWidth={2}
+										strokeDasharray="6 2"
+										dot={false}
+										connectNulls
+									/>,
+								])}
+							{/* Mark each scenario's renewals in its color */}
+							{scenariosWithInvestment.flatMap((scenario) =>
+								scenario.renewals.map((renewal) => (
+									<ReferenceLine
+										key={`${scenario.name}_renewal_${renewal.year}`}
+										x={`Year ${renewal.year}`}
+										stroke={chartColors[scenario.name]}
+										strokeDasharray="2 4"
+										label={{
+											value: `${scenario.name} renews @ ${renewal.interestRate}%`,
+											angle: -90,
+											position: 'insideTopLeft',
+											fontSize: 10,
+											fill: chartColors[scenario.name],
+										}}
+									/>
+								))
+							)}
+						</ComposedChart>
 					</ResponsiveContainer>
 				</div>
 			) : (
-				<p>Add scenarios to see the comparison chart.</p> // Updated message
+				<p>
+					{isCalculating && scenarios.length > 0
+						? 'Calculating...'
+						: 'Add scenarios to see the comparison chart.'}
+				</p>
+			)}
+			{monteCarloResult && (
+				<>
+					<h2>
+						Win Probabilities ({monteCarloResult.simulations} simulations)
+					</h2>
+					<div
+						className={`win-probabilities ${
+							isCalculating ? 'calculation-pending' : ''
+						}`}
+					>
+						<WinProbabilityTable result={monteCarloResult} />
+					</div>
+				</>
 			)}
 			{/* --- Combined Scenario Table --- (Simplified) */}
-			<h2>Comparison Table</h2>
+			<h2>Comparison Table{dollarsLabel}</h2>
+			<ComparisonExportButtons
+				config={currentConfig}
+				scenarios={scenariosWithInvestment}
+				options={{
+					title: activeWorkspaceName,
+					showRealDollars,
+					inflationRate,
+				}}
+				onOpenReport={() => setShowReport(true)}
+			/>
 			{scenariosWithInvestment.length === 0 ? (
-				<p>No scenarios added yet.</p>
+				<p>
+					{isCalculating && scenarios.length > 0
+						? 'Calculating...'
+						: 'No scenarios added yet.'}
+				</p>
 			) : (
-				<div className="table-container">
+				<div
+					className={`table-container ${
+						isCalculating ? 'calculation-pending' : ''
+					}`}
+				>
 					<table>
 						<thead>
 							<tr>
@@ -1065,15 +1550,28 @@ function App() {
 								<th className="sticky-col sticky-col-3 text-right">
 									Beginning Balance
 								</th>
+								<th className="text-right">Regular Payment</th>
 								<th className="text-right">Principal Paid</th>
 								<th className="text-right">Interest Paid</th>
+								<th className="text-right">Mortgage Insurance</th>
+								<th className="text-right">Rent</th>
+								<th className="text-right">Property Tax</th>
+								<th className="text-right">Insurance</th>
+								<th className="text-right">HOA Fees</th>
+								<th className="text-right">Maintenance</th>
 								<th className="text-right">Annual Cost</th>
 								<th className="text-right">Ending Balance</th>
 								<th className="text-right">Total Interest</th>
+								<th className="text-right">Total Interest (PV)</th>
 								<th className="text-right">Invested Diff. This Year</th>
 								<th className="text-right">Total Principal</th>
 								<th className="text-right">Investment Profit (Year)</th>
 								<th className="text-right">Total Investment Value</th>
+								<th className="text-right">Investment Tax (Year)</th>
+								<th className="text-right">Tax if Sold</th>
+								<th className="text-right">Home Value</th>
+								<th className="text-right">Home Equity</th>
+								<th className="text-right">Home Sale Proceeds</th>
 								<th className="text-right">Total Net Worth</th>
 								<th className="text-right">Change ($)</th>
 								<th className="text-right">Performance (%)</th>
@@ -1081,36 +1579,80 @@ function App() {
 						</thead>
 						<tbody>
 							{/* Correctly map years and scenarios for table body */}
-							{Array.from({ length: maxYears }, (_, i) => i + 1).map((year) => (
-								<React.Fragment key={`year-${year}`}>
-									{scenariosWithInvestment.map(
-										(scenario: Scenario, scenarioIndex: number) => {
-											const dataForYear = scenario.yearlyData?.find(
-												(d: YearlyPaymentData) => d.year === year
-											)
-											const isActiveMortgageYear = scenario.term >= year
-											const isFirstScenarioOfYear = scenarioIndex === 0
-											const isLastScenarioOfYear =
-												scenarioIndex === scenariosWithInvestment.length - 1
-
-											return (
-												<ScenarioTableRow
-													key={`${scenario.name}-${year}-${scenarioIndex}`}
-													year={year}
-													scenario={scenario}
-													dataForYear={dataForYear}
-													isFirstScenarioOfYear={isFirstScenarioOfYear}
-													isLastScenarioOfYear={isLastScenarioOfYear}
-													isActiveMortgageYear={isActiveMortgageYear}
-													rowIndex={scenarioIndex}
-													totalScenariosInYear={scenariosWithInvestment.length}
-													formatCurrency={formatCurrency}
-												/>
-											)
-										}
-									)}
-								</React.Fragment>
-							))}
+							{Array.from({ length: maxYears }, (_, i) => i + 1).map((year) => {
+								// The Year cell spans every row of the year, including expanded schedules
+								const expandedRowsInYear = scenariosWithInvestment.filter(
+									(scenario) =>
+										expandedScheduleKey === `${scenario.name}-${year}`
+								).length
+								const totalRowsInYear =
+									scenariosWithInvestment.length + expandedRowsInYear
+
+								return (
+									<React.Fragment key={`year-${year}`}>
+										{scenariosWithInvestment.map(
+											(scenario: Scenario, scenarioIndex: number) => {
+												const dataForYear = scenario.yearlyData?.find(
+													(d: YearlyPaymentData) => d.year === year
+												)
+												// Sold homes have no mortgage after the sale
+												const isActiveMortgageYear =
+													scenario.payoffYear >= year &&
+													(scenario.saleYear ?? Infinity) >= year
+												const isFirstScenarioOfYear = scenarioIndex === 0
+												const isLastScenarioOfYear =
+													scenarioIndex === scenariosWithInvestment.length - 1
+												const scheduleKey = `${scenario.name}-${year}`
+												const isScheduleExpanded =
+													expandedScheduleKey === scheduleKey
+
+												return (
+													<React.Fragment
+														key={`${scenario.name}-${year}-${scenarioIndex}`}
+													>
+														<ScenarioTableRow
+															year={year}
+															scenario={scenario}
+															dataForYear={dataForYear}
+															isFirstScenarioOfYear={isFirstScenarioOfYear}
+															isLastScenarioOfYear={
+																isLastScenarioOfYear && !isScheduleExpanded
+															}
+															isActiveMortgageYear={isActiveMortgageYear}
+															rowIndex={scenarioIndex}
+															totalScenariosInYear={totalRowsInYear}
+															isScheduleExpanded={isScheduleExpanded}
+															onToggleSchedule={() =>
+																setExpandedScheduleKey(
+																	isScheduleExpanded ? null : scheduleKey
+																)
+															}
+															formatCurrency={formatCurrency}
+														/>
+														{isScheduleExpanded && (
+															<PaymentScheduleRow
+																scenarioName={scenario.name}
+																year={year}
+																payments={scenario.paymentSchedule.filter(
+																	(payment) => payment.year === year
+																)}
+																rowClassName={`${
+																	scenarioIndex % 2 === 0
+																		? 'scenario-even'
+																		: 'scenario-odd'
+																} ${
+																	isLastScenarioOfYear ? 'year-separator' : ''
+																}`}
+																formatCurrency={formatCurrency}
+															/>
+														)}
+													</React.Fragment>
+												)
+											}
+										)}
+									</React.Fragment>
+								)
+							})}
 						</tbody>
 					</table>
 				</div>
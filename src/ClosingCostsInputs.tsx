@@ -0,0 +1,105 @@
+import React from 'react'
+import {
+	MUNICIPAL_LAND_TRANSFER_TAX,
+	PROVINCIAL_LAND_TRANSFER_TAX,
+	calculateClosingCosts,
+} from './mortgageCalculations'
+import { ClosingCosts, LandTransferTaxTable } from './types'
+
+interface ClosingCostsInputsProps {
+	costs: ClosingCosts
+	onChange: (costs: ClosingCosts) => void
+	homePrice: number // For the running total
+	formatCurrency: (amount: number | undefined) => string
+}
+
+const FEE_FIELDS: {
+	key: 'legalFees' | 'inspectionFees' | 'otherFees'
+	label: string
+}[] = [
+	{ key: 'legalFees', label: 'Legal Fees ($)' },
+	{ key: 'inspectionFees', label: 'Inspection ($)' },
+	{ key: 'otherFees', label: 'Other Fees ($)' },
+]
+
+// Helper function to render a "none" option followed by each tax table
+const renderTaxTableOptions = (
+	tables: Record<string, LandTransferTaxTable>
+) => [
+	<option key="none" value="none">
+		None
+	</option>,
+	...Object.entries(tables).map(([key, table]) => (
+		<option key={key} value={key}>
+			{table.label}
+		</option>
+	)),
+]
+
+const ClosingCostsInputs: React.FC<ClosingCostsInputsProps> = ({
+	costs,
+	onChange,
+	homePrice,
+	formatCurrency,
+}) => {
+	const breakdown = calculateClosingCosts(homePrice, costs)
+
+	return (
+		<div className="closing-costs-inputs">
+			{FEE_FIELDS.map((field) => (
+				<label key={field.key}>
+					{field.label}:
+					<input
+						type="number"
+						value={costs[field.key]}
+						onChange={(e) =>
+							onChange({ ...costs, [field.key]: Number(e.target.value) })
+						}
+						min="0"
+						step="100"
+					/>
+				</label>
+			))}
+			<label>
+				Provincial Land Transfer Tax:{' '}
+				<select
+					value={costs.provincialTax}
+					onChange={(e) =>
+						onChange({ ...costs, provincialTax: e.target.value })
+					}
+				>
+					{renderTaxTableOptions(PROVINCIAL_LAND_TRANSFER_TAX)}
+				</select>
+			</label>
+			<label>
+				Municipal Land Transfer Tax:{' '}
+				<select
+					value={costs.municipalTax}
+					onChange={(e) => onChange({ ...costs, municipalTax: e.target.value })}
+				>
+					{renderTaxTableOptions(MUNICIPAL_LAND_TRANSFER_TAX)}
+				</select>
+			</label>
+			<label>
+				<input
+					type="checkbox"
+					checked={costs.firstTimeBuyer}
+					onChange={(e) =>
+						onChange({ ...costs, firstTimeBuyer: e.target.checked })
+					}
+				/>
+				First-time buyer
+			</label>
+			<p className="closing-costs-note">
+				At {formatCurrency(homePrice)}: land transfer tax{' '}
+				{formatCurrency(breakdown.provincialTax + breakdown.municipalTax)}
+				{breakdown.firstTimeBuyerRebate > 0 &&
+					` (after a ${formatCurrency(breakdown.firstTimeBuyerRebate)} rebate)`}
+				, total {formatCurrency(breakdown.total)}, paid from initial
+				investments.
+			</p>
+		</div>
+	)
+}
+
+export default ClosingCostsInputs
@@ -0,0 +1,57 @@
+import React from 'react'
+import { downloadFile, toFileName } from './fileDownload'
+import {
+	ExportOptions,
+	buildComparisonCsv,
+	buildComparisonSheets,
+} from './tableExport'
+import { ConfigData, Scenario } from './types'
+import { createXlsx } from './xlsxWriter'
+
+interface ComparisonExportButtonsProps {
+	config: ConfigData // Inputs, recorded above the table
+	scenarios: Scenario[] // With investments, as shown in the table
+	options: ExportOptions
+	onOpenReport: () => void // Show the printable report
+}
+
+// Download the comparison table as CSV or as an Excel workbook, or open the
+// printable report
+const ComparisonExportButtons: React.FC<ComparisonExportButtonsProps> = ({
+	config,
+	scenarios,
+	options,
+	onOpenReport,
+}) => {
+	const exportCsv = () => {
+		downloadFile(
+			buildComparisonCsv(config, scenarios, options),
+			toFileName(options.title, 'csv'),
+			'text/csv'
+		)
+	}
+
+	const exportXlsx = () => {
+		downloadFile(
+			createXlsx(buildComparisonSheets(config, scenarios, options)),
+			toFileName(options.title, 'xlsx'),
+			'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+		)
+	}
+
+	return (
+		<div className="comparison-export">
+			<button onClick={exportCsv} disabled={scenarios.length === 0}>
+				Export CSV
+			</button>
+			<button onClick={exportXlsx} disabled={scenarios.length === 0}>
+				Export XLSX
+			</button>
+			<button onClick={onOpenReport} disabled={scenarios.length === 0}>
+				PDF Report
+			</button>
+		</div>
+	)
+}
+
+export default ComparisonExportButtons
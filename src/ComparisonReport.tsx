@@ -0,0 +1,271 @@
+import React, { useEffect } from 'react'
+import { CartesianGrid, Legend, Line, LineChart, XAxis, YAxis } from 'recharts'
+import ScenarioSummaryCard from './ScenarioSummaryCard'
+import { ConfigData, Scenario, YearlyPaymentData } from './types'
+
+interface ComparisonReportProps {
+	title: string // e.g. the workspace name
+	config: ConfigData
+	scenarios: Scenario[] // With investments, as shown in the table
+	showRealDollars: boolean
+	formatCurrency: (amount: number | undefined) => string
+	formatCurrencyForChart: (value: number | undefined) => string
+	chartColors: { [key: string]: string }
+	onClose: () => void
+}
+
+// Years summarized in the condensed table and the conclusions
+const MILESTONE_YEARS = [1, 5, 10, 15, 20, 25, 30]
+
+// Helper function to find a scenario's figures for a year
+const getYearData = (
+	scenario: Scenario,
+	year: number
+): YearlyPaymentData | undefined =>
+	scenario.yearlyData.find((data) => data.year === year)
+
+// Helper function to describe, in plain language, which scenario has the
+// highest net worth at a milestone and by how much
+const describeMilestone = (
+	scenarios: Scenario[],
+	year: number,
+	previousLeader: string | undefined,
+	formatCurrency: (amount: number | undefined) => string
+): { leader?: string; text: string } => {
+	const ranked = scenarios
+		.map((scenario) => ({
+			name: scenario.name,
+			netWorth: getYearData(scenario, year)?.totalNetWorth,
+		}))
+		.filter(
+			(entry): entry is { name: string; netWorth: number } =>
+				entry.netWorth !== undefined
+		)
+		.sort((a, b) => b.netWorth - a.netWorth)
+	const [first, second] = ranked
+	if (!first) return { text: `Year ${year}: no figures available.` }
+	if (!second) {
+		return {
+			leader: first.name,
+			text: `Year ${year}: ${first.name} has a net worth of ${formatCurrency(
+				first.netWorth
+			)}.`,
+		}
+	}
+
+	const lead = first.netWorth - second.netWorth
+	if (lead < 1) {
+		return {
+			text: `Year ${year}: ${first.name} and ${
+				second.name
+			} are tied at ${formatCurrency(first.netWorth)}.`,
+		}
+	}
+	const takesLead =
+		previousLeader !== undefined && previousLeader !== first.name
+			? `, taking the lead from ${previousLeader}`
+			: ''
+	return {
+		leader: first.name,
+		text: `Year ${year}: ${
+			first.name
+		} leads with a net worth of ${formatCurrency(
+			first.netWorth
+		)}, ${formatCurrency(lead)} ahead of ${second.name}${takesLead}.`,
+	}
+}
+
+// A print-ready summary of the comparison: inputs, summary cards, the net
+// worth chart, a condensed table and conclusions. Printing it to PDF happens
+// in the browser, so nothing leaves the user's machine.
+const ComparisonReport: React.FC<ComparisonReportProps> = ({
+	title,
+	config,
+	scenarios,
+	showRealDollars,
+	formatCurrency,
+	formatCurrencyForChart,
+	chartColors,
+	onClose,
+}) => {
+	// The document title becomes the suggested PDF file name
+	useEffect(() => {
+		const previousTitle = document.title
+		document.title = `${title || 'Mortgage'} Comparison Report`
+		return () => {
+			document.title = previousTitle
+		}
+	}, [title])
+
+	const maxYears = Math.max(
+		0,
+		...scenarios.map((scenario) => scenario.yearlyData.length)
+	)
+	const milestones = MILESTONE_YEARS.filter((year) => year <= maxYears)
+	const chartData = Array.from({ length: maxYears }, (_, i) => {
+		const point: { [key: string]: number | string | undefined } = {
+			year: i + 1,
+		}
+		scenarios.forEach((scenario) => {
+			point[scenario.name] = getYearData(scenario, i + 1)?.totalNetWorth
+		})
+		return point
+	})
+
+	let previousLeader: string | undefined
+	const conclusions = milestones.map((year) => {
+		const { leader, text } = describeMilestone(
+			scenarios,
+			year,
+			previousLeader,
+			formatCurrency
+		)
+		previousLeader = leader ?? previousLeader
+		return text
+	})
+
+	return (
+		<div className="comparison-report">
+			<div className="report-actions">
+				<button onClick={() => window.print()}>Print / Save as PDF</button>
+				<button onClick={onClose}>Close Report</button>
+			</div>
+
+			<h1>{title || 'Mortgage Scenario Comparison'}</h1>
+			<p>
+				Prepared {new Date().toLocaleDateString()}. Figures are in{' '}
+				{showRealDollars
+					? `today's dollars (${config.inflationRate ?? 0}% inflation)`
+					: 'nominal dollars'}
+				.
+			</p>
+
+			<h2>Inputs</h2>
+			<table className="report-table">
+				<tbody>
+					<tr>
+						<th className="text-left">Home Price</th>
+						<td className="text-right">{formatCurrency(config.homePrice)}</td>
+					</tr>
+					<tr>
+						<th className="text-left">Initial Investments</th>
+						<td className="text-right">
+							{formatCurrency(config.initialInvestments)}
+						</td>
+					</tr>
+					<tr>
+						<th className="text-left">Home Appreciation</th>
+						<td className="text-right">{config.appreciationRate ?? 0}%/yr</td>
+					</tr>
+					<tr>
+						<th className="text-left">Investment Return</th>
+						<td className="text-right">{config.investmentReturn ?? 0}%/yr</td>
+					</tr>
+					<tr>
+						<th className="text-left">Inflation</th>
+						<td className="text-right">{config.inflationRate ?? 0}%/yr</td>
+					</tr>
+				</tbody>
+			</table>
+
+			<h2>Scenarios</h2>
+			<div className="scenario-summaries">
+				{scenarios.map((scenario, index) => (
+					<ScenarioSummaryCard
+						key={`${scenario.name}-${index}`}
+						scenario={scenario}
+						index={index}
+						showRealDollars={showRealDollars}
+						formatCurrency={formatCurrency}
+					/>
+				))}
+			</div>
+
+			<h2>Net Worth Over Time</h2>
+			{/* Fixed size and no animation, so the printed chart is complete */}
+			<LineChart
+				width={700}
+				height={320}
+				data={chartData}
+				margin={{ top: 5, right: 30, left: 30, bottom: 5 }}
+			>
+				<CartesianGrid strokeDasharray="3 3" />
+				<XAxis dataKey="year" />
+				<YAxis tickFormatter={formatCurrencyForChart} />
+				<Legend />
+				{scenarios.map((scenario) => (
+					<Line
+						key={scenario.name}
+						type="monotone"
+						dataKey={scenario.name}
+						stroke={chartColors[scenario.name]}
+						strokeWidth={2}
+						dot={false}
+						isAnimationActive={false}
+					/>
+				))}
+			</LineChart>
+
+			<h2>Milestones</h2>
+			<table className="report-table">
+				<thead>
+					<tr>
+						<th className="text-center">Year</th>
+						<th className="text-left">Scenario</th>
+						<th className="text-right">Annual Cost</th>
+						<th className="text-right">Mortgage Balance</th>
+						<th className="text-right">Home Equity</th>
+						<th className="text-right">Investments (After Tax)</th>
+						<th className="text-right">Net Worth</th>
+					</tr>
+				</thead>
+				<tbody>
+					{milestones.flatMap((year) =>
+						scenarios.map((scenario, index) => {
+							const data = getYearData(scenario, year)
+							return (
+								<tr
+									key={`${year}-${scenario.name}`}
+									className={
+										index === scenarios.length - 1 ? 'year-separator' : ''
+									}
+								>
+									<td className="text-center">{index === 0 ? year : ''}</td>
+									<td className="text-left">{scenario.name}</td>
+									<td className="text-right">
+										{formatCurrency(data?.annualCost)}
+									</td>
+									<td className="text-right">
+										{formatCurrency(data?.endingBalance)}
+									</td>
+									<td className="text-right">
+										{formatCurrency(data?.homeEquity)}
+									</td>
+									<td className="text-right">
+										{formatCurrency(data?.afterTaxInvestmentValue)}
+									</td>
+									<td className="text-right">
+										{formatCurrency(data?.totalNetWorth)}
+									</td>
+								</tr>
+							)
+						})
+					)}
+				</tbody>
+			</table>
+
+			<h2>Conclusions</h2>
+			<ul className="report-conclusions">
+				{conclusions.map((text) => (
+					<li key={text}>{text}</li>
+				))}
+			</ul>
+			<p className="report-note">
+				Net worth is home equity plus investments after the tax due if they were
+				sold. These are projections from the inputs above, not advice.
+			</p>
+		</div>
+	)
+}
+
+export default ComparisonReport
@@ -0,0 +1,108 @@
+import React, { useRef, useState } from 'react'
+import jsyaml from 'js-yaml'
+import { checkConfigData } from './configValidation'
+import { downloadFile, toFileName } from './fileDownload'
+import { ConfigData } from './types'
+
+interface ConfigFileActionsProps {
+	config: ConfigData
+	name: string // Workspace name, used for the exported file name
+	onImport: (config: ConfigData, name: string) => void
+}
+
+// Export the inputs in config.yaml's schema, or import a YAML/JSON file
+const ConfigFileActions: React.FC<ConfigFileActionsProps> = ({
+	config,
+	name,
+	onImport,
+}) => {
+	const fileInput = useRef<HTMLInputElement>(null)
+	// Problems with the last imported file, listed field by field. A file with
+	// only warnings is still imported.
+	const [importProblems, setImportProblems] = useState<{
+		fileName: string
+		errors: string[]
+		warnings: string[]
+	} | null>(null)
+
+	const exportYaml = () => {
+		// skipInvalid leaves out fields that aren't set rather than failing
+		const yaml = jsyaml.dump(config, { skipInvalid: true })
+		downloadFile(yaml, toFileName(name, 'yaml'), 'text/yaml')
+	}
+
+	const exportJson = () => {
+		downloadFile(
+			JSON.stringify(config, null, 2),
+			toFileName(name, 'json'),
+			'application/json'
+		)
+	}
+
+	const importFile = async (file: File) => {
+		let parsed: unknown
+		try {
+			// JSON is valid YAML, so one parser reads both. Core schema keeps dates
+			// such as firstPaymentDate as plain strings.
+			parsed = jsyaml.load(await file.text(), { schema: jsyaml.CORE_SCHEMA })
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error)
+			setImportProblems({
+				fileName: file.name,
+				errors: [message],
+				warnings: [],
+			})
+			return
+		}
+		const { errors, warnings } = checkConfigData(parsed)
+		setImportProblems(
+			errors.length > 0 || warnings.length > 0
+				? { fileName: file.name, errors, warnings }
+				: null
+		)
+		if (errors.length > 0) return
+		onImport(parsed as ConfigData, file.name.replace(/\.(ya?ml|json)$/i, ''))
+	}
+
+	return (
+		<>
+			<button onClick={exportYaml}>Export YAML</button>
+			<button onClick={exportJson}>Export JSON</button>
+			<button onClick={() => fileInput.current?.click()}>Import...</button>
+			<input
+				ref={fileInput}
+				type="file"
+				accept=".yaml,.yml,.json"
+				style={{ display: 'none' }}
+				onChange={(e) => {
+					const file = e.target.files?.[0]
+					if (file) importFile(file)
+					e.target.value = '' // Allow picking the same file again after fixing it
+				}}
+			/>
+			{importProblems && (
+				<div
+					className={
+						importProblems.errors.length > 0
+							? 'import-errors'
+							: 'import-errors import-warnings'
+					}
+				>
+					{importProblems.errors.length > 0
+						? `Could not import ${importProblems.fileName}:`
+						: `Imported ${importProblems.fileName}, but:`}
+					<ul>
+						{[...importProblems.errors, ...importProblems.warnings].map(
+							(problem) => (
+								<li key={problem}>{problem}</li>
+							)
+						)}
+					</ul>
+					<button onClick={() => setImportProblems(null)}>Dismiss</button>
+				</div>
+			)}
+		</>
+	)
+}
+
+export default ConfigFileActions
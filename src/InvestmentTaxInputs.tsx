@@ -0,0 +1,111 @@
+import React from 'react'
+import {
+	INVESTMENT_ACCOUNT_LABELS,
+	isTaxDeferredAccount,
+} from './mortgageCalculations'
+import { InvestmentAccountType, InvestmentTaxSettings } from './types'
+
+interface InvestmentTaxInputsProps {
+	settings: InvestmentTaxSettings
+	onChange: (settings: InvestmentTaxSettings) => void
+}
+
+// Number fields, each shown only when it applies to the chosen account type
+const TAX_FIELDS: {
+	key: Exclude<keyof InvestmentTaxSettings, 'accountType'>
+	label: string
+	step: string
+	appliesTo: (accountType: InvestmentAccountType) => boolean
+}[] = [
+	{
+		key: 'contributionRoom',
+		label: 'Contribution Room Today ($)',
+		step: '1000',
+		appliesTo: (accountType) => accountType !== 'taxable',
+	},
+	{
+		key: 'annualContributionRoom',
+		label: 'New Room per Year ($)',
+		step: '500',
+		appliesTo: (accountType) => accountType !== 'taxable',
+	},
+	{
+		key: 'withdrawalTaxRate',
+		label: 'Withdrawal Tax Rate (%)',
+		step: '1',
+		appliesTo: isTaxDeferredAccount,
+	},
+	{
+		key: 'capitalGainsTaxRate',
+		label: 'Capital Gains Tax Rate (%)',
+		step: '0.5',
+		appliesTo: () => true,
+	},
+	{
+		key: 'dividendYield',
+		label: 'Dividend Yield (%/yr)',
+		step: '0.1',
+		appliesTo: () => true,
+	},
+	{
+		key: 'dividendTaxRate',
+		label: 'Dividend Tax Rate (%)',
+		step: '0.5',
+		appliesTo: () => true,
+	},
+]
+
+const InvestmentTaxInputs: React.FC<InvestmentTaxInputsProps> = ({
+	settings,
+	onChange,
+}) => {
+	return (
+		<div className="investment-tax-inputs">
+			<label>
+				Savings Invested In:
+				<select
+					value={settings.accountType}
+					onChange={(e) =>
+						onChange({
+							...settings,
+							accountType: e.target.value as InvestmentAccountType,
+						})
+					}
+				>
+					{(
+						Object.keys(INVESTMENT_ACCOUNT_LABELS) as InvestmentAccountType[]
+					).map((accountType) => (
+						<option key={accountType} value={accountType}>
+							{INVESTMENT_ACCOUNT_LABELS[accountType]}
+						</option>
+					))}
+				</select>
+			</label>
+			{TAX_FIELDS.filter((field) => field.appliesTo(settings.accountType)).map(
+				(field) => (
+					<label key={field.key}>
+						{field.label}:
+						<input
+							type="number"
+							value={settings[field.key]}
+							onChange={(e) =>
+								onChange({ ...settings, [field.key]: Number(e.target.value) })
+							}
+							min="0"
+							step={field.step}
+						/>
+					</label>
+				)
+			)}
+			{settings.accountType !== 'taxable' && (
+				<p className="investment-tax-note">
+					Savings beyond the contribution room go to a taxable account.
+					{isTaxDeferredAccount(settings.accountType) &&
+						' Contribution refunds are assumed to be reinvested.'}
+				</p>
+			)}
+		</div>
+	)
+}
+
+export default InvestmentTaxInputs
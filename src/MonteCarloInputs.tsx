@@ -0,0 +1,57 @@
+import React from 'react'
+import { MAX_SIMULATIONS } from './monteCarlo'
+import { MonteCarloSettings } from './types'
+
+interface MonteCarloInputsProps {
+	settings: MonteCarloSettings
+	onChange: (settings: MonteCarloSettings) => void
+}
+
+// Numeric settings, shown once Monte Carlo mode is switched on
+const SETTING_FIELDS: {
+	key: Exclude<keyof MonteCarloSettings, 'enabled'>
+	label: string
+	step: string
+	min?: string
+}[] = [
+	{ key: 'simulations', label: 'Simulations', step: '100', min: '1' },
+	{ key: 'mean', label: 'Mean Return (%/yr)', step: '0.1' },
+	{ key: 'volatility', label: 'Volatility (%/yr)', step: '0.5', min: '0' },
+	{ key: 'seed', label: 'Random Seed', step: '1' },
+]
+
+const MonteCarloInputs: React.FC<MonteCarloInputsProps> = ({
+	settings,
+	onChange,
+}) => {
+	return (
+		<div className="monte-carlo-inputs">
+			<label>
+				<input
+					type="checkbox"
+					checked={settings.enabled}
+					onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+				/>
+				Simulate random investment returns (Monte Carlo)
+			</label>
+			{settings.enabled &&
+				SETTING_FIELDS.map((field) => (
+					<label key={field.key}>
+						{field.label}:
+						<input
+							type="number"
+							value={settings[field.key]}
+							onChange={(e) =>
+								onChange({ ...settings, [field.key]: Number(e.target.value) })
+							}
+							step={field.step}
+							min={field.min}
+							max={field.key === 'simulations' ? MAX_SIMULATIONS : undefined}
+						/>
+					</label>
+				))}
+		</div>
+	)
+}
+
+export default MonteCarloInputs
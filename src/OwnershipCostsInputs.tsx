@@ -0,0 +1,83 @@
+import React from 'react'
+import { OwnershipCosts } from './types'
+
+interface OwnershipCostsInputsProps {
+	costs: OwnershipCosts
+	onChange: (costs: OwnershipCosts) => void
+}
+
+// Fixed costs are entered alongside their own yearly inflation rate; the
+// ones set as a % of value grow with the home's appreciation instead
+const COST_FIELDS: {
+	key: keyof OwnershipCosts
+	inflationKey?: keyof OwnershipCosts
+	label: string
+	step: string
+}[] = [
+	{
+		key: 'propertyTaxRate',
+		label: 'Property Tax (% of value/yr)',
+		step: '0.01',
+	},
+	{
+		key: 'insurance',
+		inflationKey: 'insuranceInflation',
+		label: 'Home Insurance ($/yr)',
+		step: '1',
+	},
+	{
+		key: 'hoaFees',
+		inflationKey: 'hoaFeesInflation',
+		label: 'HOA/Condo Fees ($/mo)',
+		step: '1',
+	},
+	{
+		key: 'maintenanceRate',
+		label: 'Maintenance (% of value/yr)',
+		step: '0.01',
+	},
+]
+
+const OwnershipCostsInputs: React.FC<OwnershipCostsInputsProps> = ({
+	costs,
+	onChange,
+}) => {
+	return (
+		<div className="ownership-costs-inputs">
+			{COST_FIELDS.map(({ key, inflationKey, label, step }) => (
+				<div key={key}>
+					<label>
+						{label}:
+						<input
+							type="number"
+							value={costs[key]}
+							onChange={(e) =>
+								onChange({ ...costs, [key]: Number(e.target.value) })
+							}
+							min="0"
+							step={step}
+						/>
+					</label>
+					{inflationKey && (
+						<label>
+							Inflation (%/yr):
+							<input
+								type="number"
+								value={costs[inflationKey]}
+								onChange={(e) =>
+									onChange({
+										...costs,
+										[inflationKey]: Number(e.target.value),
+									})
+								}
+								step="0.1"
+							/>
+						</label>
+					)}
+				</div>
+			))}
+		</div>
+	)
+}
+
+export default OwnershipCostsInputs
@@ -0,0 +1,86 @@
+import React from 'react'
+import { PaymentScheduleEntry } from './types'
+
+interface PaymentScheduleRowProps {
+	scenarioName: string
+	year: number
+	payments: PaymentScheduleEntry[]
+	rowClassName: string
+	formatCurrency: (amount: number | undefined) => string
+}
+
+// Drill-down row showing each individual payment for one scenario and year
+const PaymentScheduleRow: React.FC<PaymentScheduleRowProps> = ({
+	scenarioName,
+	year,
+	payments,
+	rowClassName,
+	formatCurrency,
+}) => {
+	return (
+		<tr className={`${rowClassName} payment-schedule-row`}>
+			{/* Spans every column except the sticky Year column (27 of 28) */}
+			<td colSpan={27} className="text-left">
+				{payments.length === 0 ? (
+					<p>
+						No payments scheduled for {scenarioName} in year {year}.
+					</p>
+				) : (
+					<table className="payment-schedule-table">
+						<thead>
+							<tr>
+								<th className="text-center">Payment #</th>
+								<th className="text-left">Date</th>
+								<th className="text-right">Rate</th>
+								<th className="text-right">Payment</th>
+								<th className="text-right">Interest</th>
+								<th className="text-right">Principal</th>
+								<th className="text-right">Prepayment</th>
+								<th className="text-right">Mtg. Insurance</th>
+								<th className="text-right">Balance</th>
+							</tr>
+						</thead>
+						<tbody>
+							{payments.map((payment) => (
+								<tr
+									key={payment.paymentNumber}
+									className={
+										payment.negativeAmortization ? 'scenario-warning' : ''
+									}
+								>
+									<td className="text-center">{payment.paymentNumber}</td>
+									<td className="text-left">{payment.date}</td>
+									<td className="text-right">{payment.interestRate}%</td>
+									<td className="text-right">
+										{formatCurrency(payment.payment)}
+									</td>
+									<td className="text-right">
+										{formatCurrency(payment.interest)}
+									</td>
+									<td className="text-right">
+										{formatCurrency(payment.principal)}
+									</td>
+									<td className="text-right">
+										{payment.prepayment > 0
+											? formatCurrency(payment.prepayment)
+											: '-'}
+									</td>
+									<td className="text-right">
+										{payment.mortgageInsurance
+											? formatCurrency(payment.mortgageInsurance)
+											: '-'}
+									</td>
+									<td className="text-right">
+										{formatCurrency(payment.balance)}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				)}
+			</td>
+		</tr>
+	)
+}
+
+export default PaymentScheduleRow
@@ -0,0 +1,95 @@
+import React from 'react'
+import { PREPAYMENT_PENALTY_LABELS } from './mortgageCalculations'
+import { PrepaymentPenaltyType, SaleSettings } from './types'
+
+interface SaleInputsProps {
+	sale: SaleSettings
+	onChange: (sale: SaleSettings) => void
+}
+
+const SaleInputs: React.FC<SaleInputsProps> = ({ sale, onChange }) => {
+	return (
+		<div className="sale-inputs">
+			<label>
+				Sell at End of Year (0 = never):
+				<input
+					type="number"
+					value={sale.year}
+					onChange={(e) => onChange({ ...sale, year: Number(e.target.value) })}
+					min="0"
+					step="1"
+				/>
+			</label>
+			<label>
+				Realtor Commission (%):
+				<input
+					type="number"
+					value={sale.commissionRate}
+					onChange={(e) =>
+						onChange({ ...sale, commissionRate: Number(e.target.value) })
+					}
+					min="0"
+					step="0.25"
+				/>
+			</label>
+			<label>
+				Selling Closing Costs ($):
+				<input
+					type="number"
+					value={sale.closingCosts}
+					onChange={(e) =>
+						onChange({ ...sale, closingCosts: Number(e.target.value) })
+					}
+					min="0"
+					step="100"
+				/>
+			</label>
+			<label>
+				Prepayment Penalty:{' '}
+				<select
+					value={sale.prepaymentPenalty}
+					onChange={(e) =>
+						onChange({
+							...sale,
+							prepaymentPenalty: e.target.value as PrepaymentPenaltyType,
+						})
+					}
+				>
+					{(
+						Object.keys(PREPAYMENT_PENALTY_LABELS) as PrepaymentPenaltyType[]
+					).map((penalty) => (
+						<option key={penalty} value={penalty}>
+							{PREPAYMENT_PENALTY_LABELS[penalty]}
+						</option>
+					))}
+				</select>
+			</label>
+			{sale.prepaymentPenalty === 'ird' && (
+				<label>
+					Lender's Current Rate for Remaining Term (%):
+					<input
+						type="number"
+						value={sale.irdComparisonRate ?? ''}
+						placeholder="Mortgage rate"
+						onChange={(e) =>
+							onChange({
+								...sale,
+								irdComparisonRate:
+									e.target.value === '' ? undefined : Number(e.target.value),
+							})
+						}
+						min="0"
+						step="0.05"
+					/>
+				</label>
+			)}
+			<p className="sale-note">
+				The remaining balance and any penalty are paid from the sale, and the
+				proceeds are invested. After the sale there are no housing costs, so the
+				scenario stops investing savings.
+			</p>
+		</div>
+	)
+}
+
+export default SaleInputs
@@ -1,10 +1,15 @@
 import React from 'react'
-import { Scenario } from './App' // Assuming types are exported from App.tsx or a types file
+import {
+	INVESTMENT_ACCOUNT_LABELS,
+	PAYMENT_FREQUENCY_LABELS,
+} from './mortgageCalculations'
+import { Scenario } from './types'
 
 interface ScenarioSummaryCardProps {
 	scenario: Scenario
 	index: number
-	onRemove: (index: number) => void
+	onRemove?: (index: number) => void // Omit to hide the Remove button, e.g. in the report
+	showRealDollars: boolean
 	formatCurrency: (amount: number | undefined) => string
 }
 
@@ -12,28 +17,178 @@ const ScenarioSummaryCard: React.FC<ScenarioSummaryCardProps> = ({
 	scenario,
 	index,
 	onRemove,
+	showRealDollars,
 	formatCurrency,
 }) => {
 	return (
 		<div key={`${scenario.name}-${index}`} className="scenario-summary-card">
 			<h3>{scenario.name}</h3>
-			<p>
-				Down Payment: {formatCurrency(scenario.downPayment)} (
-				{scenario.downPaymentType === 'percent'
-					? `${scenario.downPaymentInput}%`
-					: formatCurrency(scenario.downPaymentInput)}
-				)
-			</p>
-			<p>Interest Rate: {scenario.interestRate}%</p>
-			<p>Term: {scenario.term} Years</p>
-			<p>Monthly P&I: {formatCurrency(scenario.monthlyPayment)}</p>
-			<button
-				onClick={() => onRemove(index)}
-				className="remove-button-small"
-				style={{ marginTop: '5px' }}
-			>
-				Remove
-			</button>
+			{scenario.type === 'rent' ? (
+				<>
+					<p>
+						Monthly Rent: {formatCurrency(scenario.monthlyRent)} (+
+						{scenario.annualRentIncrease ?? 0}%/yr)
+					</p>
+					<p>
+						Renter's Insurance: {formatCurrency(scenario.rentersInsurance ?? 0)}
+						/yr
+					</p>
+					<p>No down payment: initial investments stay invested</p>
+				</>
+			) : (
+				<>
+					<p>Home Price: {formatCurrency(scenario.homePrice)}</p>
+					<p>
+						Down Payment: {formatCurrency(scenario.downPayment)} (
+						{scenario.downPaymentType === 'percent'
+							? `${scenario.downPaymentInput}%`
+							: formatCurrency(scenario.downPaymentInput)}
+						)
+					</p>
+					<p>
+						Interest Rate: {scenario.interestRate}% (compounded{' '}
+						{scenario.compounding})
+					</p>
+					{scenario.variableRate && (
+						<p>
+							Variable Rate (payments{' '}
+							{scenario.variableRate.paymentMode === 'fixed'
+								? 'fixed'
+								: 'floating'}
+							)
+						</p>
+					)}
+					<p>Amortization: {scenario.term} Years</p>
+					{scenario.rateTerms && scenario.rateTerms.length > 0 && (
+						<p>Initial Rate Term: {scenario.rateTerms[0].years} Years</p>
+					)}
+					<p>First Payment: {scenario.firstPaymentDate}</p>
+					<p>
+						Payoff: Year {scenario.payoffYear} ({scenario.payoffDate})
+					</p>
+					{scenario.interestSaved > 0 && (
+						<p>
+							Interest Saved: {formatCurrency(scenario.interestSaved)}
+							{showRealDollars ? ' (nominal)' : ''}
+						</p>
+					)}
+					<p>
+						Total Interest (PV):{' '}
+						{formatCurrency(
+							scenario.yearlyData[scenario.yearlyData.length - 1]
+								?.totalInterestPaidPresentValue
+						)}
+					</p>
+					<p>
+						{PAYMENT_FREQUENCY_LABELS[scenario.paymentFrequency]} P&I:{' '}
+						{formatCurrency(scenario.paymentAmount)}
+					</p>
+					{scenario.saleYear !== undefined && (
+						<p>
+							Sold End of Year {scenario.saleYear}: net proceeds{' '}
+							{formatCurrency(
+								scenario.yearlyData.find((d) => d.year === scenario.saleYear)
+									?.saleProceeds
+							)}{' '}
+							invested
+						</p>
+					)}
+					{scenario.closingCostBreakdown && (
+						<p>
+							Closing Costs:{' '}
+							{formatCurrency(scenario.closingCostBreakdown.total)}
+							{scenario.closingCostBreakdown.provincialTax +
+								scenario.closingCostBreakdown.municipalTax >
+								0 &&
+								` (incl. ${formatCurrency(
+									scenario.closingCostBreakdown.provincialTax +
+										scenario.closingCostBreakdown.municipalTax
+								)} land transfer tax)`}
+						</p>
+					)}
+					{scenario.mortgageInsuranceDetails?.type === 'cmhc' && (
+						<p>
+							CMHC Premium:{' '}
+							{formatCurrency(scenario.mortgageInsuranceDetails.premium)} (
+							{scenario.mortgageInsuranceDetails.rate}% of loan, added to
+							principal)
+						</p>
+					)}
+					{scenario.mortgageInsuranceDetails?.type === 'pmi' && (
+						<p>
+							PMI:{' '}
+							{formatCurrency(scenario.mortgageInsuranceDetails.premium / 12)}
+							/mo ({scenario.mortgageInsuranceDetails.rate}%/yr)
+							{scenario.mortgageInsuranceDetails.removalYear !== undefined &&
+								` until year ${scenario.mortgageInsuranceDetails.removalYear}`}
+							{showRealDollars ? ' (nominal)' : ''}
+						</p>
+					)}
+					{scenario.appliedRefinances.length > 0 && (
+						<>
+							<p>Refinances:</p>
+							<ul className="renewal-list">
+								{scenario.appliedRefinances.map((refinance) => (
+									<li key={refinance.year}>
+										Year {refinance.year} @ {refinance.interestRate}%:{' '}
+										{formatCurrency(refinance.paymentAmount)} on{' '}
+										{formatCurrency(refinance.newBalance)}
+										{refinance.cashOut > 0 &&
+											` (${formatCurrency(refinance.cashOut)} cash-out)`}
+										, costs {formatCurrency(refinance.costs)},{' '}
+										{refinance.breakEvenYear !== undefined
+											? `breaks even in year ${refinance.breakEvenYear}`
+											: 'never breaks even'}
+									</li>
+								))}
+							</ul>
+						</>
+					)}
+					{scenario.renewals.length > 0 && (
+						<>
+							<p>Renewals:</p>
+							<ul className="renewal-list">
+								{scenario.renewals.map((renewal) => (
+									<li key={renewal.year}>
+										Year {renewal.year} @ {renewal.interestRate}%:{' '}
+										{formatCurrency(renewal.paymentAmount)}
+									</li>
+								))}
+							</ul>
+						</>
+					)}
+				</>
+			)}
+			{(scenario.investmentReturn !== undefined ||
+				scenario.investmentReturnPath !== undefined) && (
+				<p>
+					Investment Return: {scenario.investmentReturn ?? 'global'}
+					{scenario.investmentReturn !== undefined ? '%' : ''}
+					{scenario.investmentReturnPath?.map(
+						(change) => `, ${change.rate}% from year ${change.year}`
+					)}
+				</p>
+			)}
+			{scenario.investmentTax?.accountType && (
+				<p>
+					Invests In:{' '}
+					{INVESTMENT_ACCOUNT_LABELS[scenario.investmentTax.accountType]}
+				</p>
+			)}
+			{scenario.warnings.map((warning) => (
+				<p key={warning} className="scenario-warning">
+					⚠ {warning}
+				</p>
+			))}
+			{onRemove && (
+				<button
+					onClick={() => onRemove(index)}
+					className="remove-button-small"
+					style={{ marginTop: '5px' }}
+				>
+					Remove
+				</button>
+			)}
 		</div>
 	)
 }
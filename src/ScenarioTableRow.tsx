@@ -1,5 +1,5 @@
 import React from 'react'
-import { Scenario, YearlyPaymentData } from './App' // Assuming types are exported from App.tsx or a types file
+import { Scenario, YearlyPaymentData } from './types'
 
 interface ScenarioTableRowProps {
 	year: number
@@ -10,6 +10,8 @@ interface ScenarioTableRowProps {
 	isActiveMortgageYear: boolean
 	rowIndex: number
 	totalScenariosInYear: number
+	isScheduleExpanded: boolean
+	onToggleSchedule: () => void
 	formatCurrency: (amount: number | undefined) => string
 }
 
@@ -22,12 +24,23 @@ const ScenarioTableRow: React.FC<ScenarioTableRowProps> = ({
 	isActiveMortgageYear,
 	rowIndex,
 	totalScenariosInYear,
+	isScheduleExpanded,
+	onToggleSchedule,
 	formatCurrency,
 }) => {
+	const renewal = scenario.renewals.find((r) => r.year === year)
+	const refinance = scenario.appliedRefinances.find((r) => r.year === year)
+	// Refinances whose interest savings first cover their costs this year
+	const breakEvenRefinances = scenario.appliedRefinances.filter(
+		(r) => r.breakEvenYear === year
+	)
 	const rowClassName = `${
 		rowIndex % 2 === 0 ? 'scenario-even' : 'scenario-odd'
-	} ${isLastScenarioOfYear ? 'year-separator' : ''}`
-	const rowStyle = !isActiveMortgageYear ? { color: '#999' } : {}
+	} ${isLastScenarioOfYear ? 'year-separator' : ''} ${
+		renewal || refinance ? 'renewal-year' : ''
+	} ${breakEvenRefinances.length > 0 ? 'refinance-break-even' : ''}`
+	const isRent = scenario.type === 'rent'
+	const rowStyle = !isActiveMortgageYear && !isRent ? { color: '#999' } : {}
 
 	if (!dataForYear) {
 		// Render a placeholder row if data is missing
@@ -47,8 +60,8 @@ const ScenarioTableRow: React.FC<ScenarioTableRowProps> = ({
 				<td className="sticky-col sticky-col-2 text-left">
 					{scenario.name} (Data Missing/Error)
 				</td>
-				{/* Adjust colspan based on the number of data columns (13 data cols + 2 sticky = 15 total) */}
-				<td colSpan={13} className="text-left">
+				{/* Adjust colspan based on the number of data columns (26 data cols + 2 sticky = 28 total) */}
+				<td colSpan={26} className="text-left">
 					Data missing or error for this year
 				</td>
 			</tr>
@@ -70,13 +83,67 @@ const ScenarioTableRow: React.FC<ScenarioTableRowProps> = ({
 				</td>
 			) : null}
 			<td className="sticky-col sticky-col-2 text-left">
-				{scenario.name} {!isActiveMortgageYear ? '(Ended)' : ''}
+				{isActiveMortgageYear && (
+					<button
+						onClick={onToggleSchedule}
+						className="schedule-toggle"
+						title={
+							isScheduleExpanded
+								? 'Hide payment schedule'
+								: 'Show payment schedule'
+						}
+					>
+						{isScheduleExpanded ? '▾' : '▸'}
+					</button>
+				)}
+				{scenario.name} {!isActiveMortgageYear && !isRent ? '(Ended)' : ''}
+				{year === scenario.payoffYear && year !== scenario.saleYear
+					? '(Paid Off)'
+					: ''}
+				{year === scenario.saleYear ? '(Sold)' : ''}
+				{dataForYear.negativeAmortization && (
+					<span
+						className="scenario-warning"
+						title="Payments didn't cover the interest this year"
+					>
+						{' '}
+						⚠ Negative Amortization
+					</span>
+				)}
+				{renewal && (
+					<span className="renewal-badge">
+						Renews @ {renewal.interestRate}%
+					</span>
+				)}
+				{refinance && isActiveMortgageYear && (
+					<span className="renewal-badge">
+						Refinanced @ {refinance.interestRate}%
+					</span>
+				)}
+				{breakEvenRefinances.map((r) => (
+					<span
+						key={r.year}
+						className="break-even-badge"
+						title={`Interest saved since the year ${
+							r.year
+						} refinance (not counting cash-out) now covers its ${formatCurrency(
+							r.costs
+						)} penalty and fees`}
+					>
+						Year {r.year} refinance breaks even
+					</span>
+				))}
 			</td>
 			<td className="sticky-col sticky-col-3 text-right">
 				{isActiveMortgageYear
 					? formatCurrency(dataForYear.beginningBalance)
 					: '-'}
 			</td>
+			<td className="text-right">
+				{isActiveMortgageYear
+					? formatCurrency(dataForYear.paymentAmount ?? scenario.paymentAmount)
+					: '-'}
+			</td>
 			<td className="text-right">
 				{isActiveMortgageYear
 					? formatCurrency(dataForYear.principalPaidYearly)
@@ -88,8 +155,26 @@ const ScenarioTableRow: React.FC<ScenarioTableRowProps> = ({
 					: '-'}
 			</td>
 			<td className="text-right">
-				{isActiveMortgageYear ? formatCurrency(dataForYear.annualCost) : '-'}
+				{isActiveMortgageYear && dataForYear.mortgageInsuranceYearly
+					? formatCurrency(dataForYear.mortgageInsuranceYearly)
+					: '-'}
+			</td>
+			<td className="text-right">
+				{isRent ? formatCurrency(dataForYear.rentYearly) : '-'}
+			</td>
+			<td className="text-right">
+				{formatCurrency(dataForYear.propertyTaxYearly)}
+			</td>
+			<td className="text-right">
+				{formatCurrency(dataForYear.insuranceYearly)}
+			</td>
+			<td className="text-right">
+				{formatCurrency(dataForYear.hoaFeesYearly)}
 			</td>
+			<td className="text-right">
+				{formatCurrency(dataForYear.maintenanceYearly)}
+			</td>
+			<td className="text-right">{formatCurrency(dataForYear.annualCost)}</td>
 			<td className="text-right">
 				{isActiveMortgageYear ? formatCurrency(dataForYear.endingBalance) : '-'}
 			</td>
@@ -97,7 +182,10 @@ const ScenarioTableRow: React.FC<ScenarioTableRowProps> = ({
 				{formatCurrency(dataForYear.totalInterestPaid)}
 			</td>
 			<td className="text-right">
-				{isActiveMortgageYear && dataForYear.investmentDifference !== 0
+				{formatCurrency(dataForYear.totalInterestPaidPresentValue)}
+			</td>
+			<td className="text-right">
+				{dataForYear.investmentDifference !== 0
 					? formatCurrency(dataForYear.investmentDifference)
 					: '-'}
 			</td>
@@ -110,6 +198,32 @@ const ScenarioTableRow: React.FC<ScenarioTableRowProps> = ({
 			<td className="text-right">
 				{formatCurrency(dataForYear.cumulativeInvestmentValue)}
 			</td>
+			<td className="text-right">
+				{formatCurrency(dataForYear.investmentTaxYearly)}
+			</td>
+			<td className="text-right">
+				{formatCurrency(dataForYear.liquidationTax)}
+			</td>
+			<td className="text-right">{formatCurrency(dataForYear.homeValue)}</td>
+			<td className="text-right">{formatCurrency(dataForYear.homeEquity)}</td>
+			<td
+				className="text-right"
+				title={
+					dataForYear.saleProceeds !== undefined
+						? `Sold for ${formatCurrency(
+								dataForYear.salePrice
+						  )}, less ${formatCurrency(
+								dataForYear.sellingCosts
+						  )} selling costs and ${formatCurrency(
+								dataForYear.prepaymentPenalty
+						  )} prepayment penalty`
+						: undefined
+				}
+			>
+				{dataForYear.saleProceeds !== undefined
+					? formatCurrency(dataForYear.saleProceeds)
+					: '-'}
+			</td>
 			<td className="text-right">
 				{formatCurrency(dataForYear.totalNetWorth)}
 			</td>
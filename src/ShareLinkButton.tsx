@@ -0,0 +1,36 @@
+import React, { useState } from 'react'
+import { buildShareUrl } from './shareLink'
+import { ConfigData } from './types'
+
+interface ShareLinkButtonProps {
+	config: ConfigData
+}
+
+// Copies a link that opens this exact comparison for someone else
+const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({ config }) => {
+	const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle')
+
+	const copyLink = async () => {
+		try {
+			await navigator.clipboard.writeText(await buildShareUrl(config))
+			setStatus('copied')
+		} catch (error) {
+			console.error('Could not copy link:', error)
+			setStatus('failed')
+		}
+		// Go back to the plain label after a moment
+		setTimeout(() => setStatus('idle'), 2000)
+	}
+
+	return (
+		<button onClick={copyLink}>
+			{status === 'copied'
+				? 'Link copied!'
+				: status === 'failed'
+				? 'Copy failed'
+				: 'Copy link'}
+		</button>
+	)
+}
+
+export default ShareLinkButton
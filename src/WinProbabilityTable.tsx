@@ -0,0 +1,57 @@
+import React from 'react'
+import { MonteCarloResult } from './types'
+
+interface WinProbabilityTableProps {
+	result: MonteCarloResult
+}
+
+// Chance each scenario ends the year with a higher net worth than each other
+// scenario, across all simulated return paths
+const WinProbabilityTable: React.FC<WinProbabilityTableProps> = ({
+	result,
+}) => {
+	if (result.winProbabilities.length === 0) {
+		return <p>Add another scenario to compare win probabilities.</p>
+	}
+	const years = result.winProbabilities[0].probabilities.map((_, i) => i + 1)
+
+	return (
+		<div className="table-container">
+			<table>
+				<thead>
+					<tr>
+						<th className="sticky-col sticky-col-1 text-center">Year</th>
+						{result.winProbabilities.map((pair) => (
+							<th
+								key={`${pair.scenarioA}-${pair.scenarioB}`}
+								className="text-right"
+							>
+								P({pair.scenarioA} beats {pair.scenarioB})
+							</th>
+						))}
+					</tr>
+				</thead>
+				<tbody>
+					{years.map((year, i) => (
+						<tr
+							key={year}
+							className={i % 2 === 0 ? 'scenario-even' : 'scenario-odd'}
+						>
+							<td className="sticky-col sticky-col-1 text-center">{year}</td>
+							{result.winProbabilities.map((pair) => (
+								<td
+									key={`${pair.scenarioA}-${pair.scenarioB}`}
+									className="text-right"
+								>
+									{(pair.probabilities[i] * 100).toFixed(1)}%
+								</td>
+							))}
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	)
+}
+
+export default WinProbabilityTable
@@ -0,0 +1,62 @@
+import React from 'react'
+import { Workspace } from './types'
+
+interface WorkspaceBarProps {
+	workspaces: Workspace[]
+	activeWorkspaceId: string
+	onSwitch: (id: string) => void
+	onRename: (name: string) => void
+	onAdd: () => void
+	onDuplicate: () => void
+	onDelete: () => void
+	children?: React.ReactNode // Extra actions for the current workspace
+}
+
+// Picks, names and manages the saved workspaces, e.g. "Oak St house"
+const WorkspaceBar: React.FC<WorkspaceBarProps> = ({
+	workspaces,
+	activeWorkspaceId,
+	onSwitch,
+	onRename,
+	onAdd,
+	onDuplicate,
+	onDelete,
+	children,
+}) => {
+	const activeWorkspace = workspaces.find(
+		(workspace) => workspace.id === activeWorkspaceId
+	)
+
+	return (
+		<div className="workspace-bar">
+			<label>
+				Workspace:{' '}
+				<select
+					value={activeWorkspaceId}
+					onChange={(e) => onSwitch(e.target.value)}
+				>
+					{workspaces.map((workspace) => (
+						<option key={workspace.id} value={workspace.id}>
+							{workspace.name || '(unnamed)'}
+						</option>
+					))}
+				</select>
+			</label>
+			<label>
+				Name:
+				<input
+					type="text"
+					value={activeWorkspace?.name ?? ''}
+					onChange={(e) => onRename(e.target.value)}
+				/>
+			</label>
+			<button onClick={onAdd}>New</button>
+			<button onClick={onDuplicate}>Duplicate</button>
+			<button onClick={onDelete}>Delete</button>
+			{children}
+			<span className="workspace-note">Saved in this browser</span>
+		</div>
+	)
+}
+
+export default WorkspaceBar
@@ -0,0 +1,28 @@
+// The full calculation pipeline behind the chart and table: the deterministic
+// comparison, plus the Monte Carlo simulation when it's switched on. Runs in
+// calculationWorker.ts, or directly where Web Workers aren't available.
+import { calculateScenariosWithInvestment } from './mortgageCalculations'
+import { runMonteCarloSimulation } from './monteCarlo'
+import { CalculationRequest, CalculationResults } from './types'
+
+export const runCalculations = (
+	request: Omit<CalculationRequest, 'runId'>,
+	onProgress?: (completed: number, total: number) => void
+): CalculationResults => {
+	const { scenarios, options, monteCarloSettings } = request
+	return {
+		scenariosWithInvestment: calculateScenariosWithInvestment(
+			scenarios,
+			options
+		),
+		monteCarloResult:
+			monteCarloSettings && scenarios.length > 0
+				? runMonteCarloSimulation(
+						scenarios,
+						options,
+						monteCarloSettings,
+						onProgress
+				  )
+				: null,
+	}
+}
@@ -0,0 +1,24 @@
+// Web Worker running the calculation pipeline off the main thread, so typing
+// in an input never waits on a simulation. See useScenarioCalculations.
+import { runCalculations } from './calculationPipeline'
+import { CalculationRequest, CalculationResponse } from './types'
+
+const postResponse = (response: CalculationResponse) => {
+	self.postMessage(response)
+}
+
+self.onmessage = (event: MessageEvent<CalculationRequest>) => {
+	const { runId } = event.data
+	try {
+		const results = runCalculations(event.data, (completed, total) =>
+			postResponse({ type: 'progress', runId, completed, total })
+		)
+		postResponse({ type: 'result', runId, ...results })
+	} catch (e: unknown) {
+		postResponse({
+			type: 'error',
+			runId,
+			message: e instanceof Error ? e.message : String(e),
+		})
+	}
+}
@@ -0,0 +1,131 @@
+import jsyaml from 'js-yaml'
+import { describe, expect, it } from 'vitest'
+import exampleConfigYaml from '../public/config.yaml.example?raw'
+import { checkConfigData, validateConfigData } from './configValidation'
+
+// Helper function to build a config with two mortgage scenarios, with some of
+// the second one's fields changed
+const configWith = (secondScenario: Record<string, unknown> = {}) => ({
+	homePrice: 500000,
+	initialInvestments: 150000,
+	initialScenarios: [
+		{
+			name: 'First',
+			downPaymentInput: 20,
+			downPaymentType: 'percent',
+			interestRate: 5,
+			term: 25,
+		},
+		{
+			name: 'Second',
+			downPaymentInput: 100000,
+			downPaymentType: 'amount',
+			interestRate: 4.5,
+			term: 30,
+			...secondScenario,
+		},
+	],
+})
+
+describe('checkConfigData', () => {
+	it('accepts the example config without problems', () => {
+		const config = jsyaml.load(exampleConfigYaml, {
+			schema: jsyaml.CORE_SCHEMA,
+		})
+		expect(checkConfigData(config)).toEqual({ errors: [], warnings: [] })
+	})
+
+	it('reports problems with the path to the field', () => {
+		expect(validateConfigData(configWith({ term: -5 }))).toEqual([
+			'initialScenarios[1].term must be positive',
+		])
+		expect(validateConfigData(configWith({ interestRate: 'high' }))).toEqual([
+			'initialScenarios[1].interestRate must be a number',
+		])
+	})
+
+	it('reports every problem, not just the first', () => {
+		const config = { ...configWith({ term: 0 }), homePrice: 'lots' }
+		expect(validateConfigData(config)).toEqual([
+			'homePrice must be a number',
+			'initialScenarios[1].term must be positive',
+		])
+	})
+
+	it('rejects something other than a config', () => {
+		expect(validateConfigData(null)).toHaveLength(1)
+		expect(validateConfigData([])).toHaveLength(1)
+		expect(validateConfigData({ homePrice: 500000 })).toEqual([
+			'initialInvestments is required',
+			'initialScenarios is required',
+		])
+	})
+
+	it('warns about unknown fields without rejecting the config', () => {
+		const config = { ...configWith({ intrestRate: 4 }), theme: 'dark' }
+		expect(checkConfigData(config)).toEqual({
+			errors: [],
+			warnings: [
+				'theme is not a recognized field and was ignored',
+				'initialScenarios[1].intrestRate is not a recognized field and was ignored',
+			],
+		})
+	})
+
+	it('treats inherited names as unknown fields', () => {
+		const config = JSON.parse('{"constructor": 1, "toString": 2}')
+		expect(checkConfigData({ ...configWith(), ...config }).warnings).toEqual([
+			'constructor is not a recognized field and was ignored',
+			'toString is not a recognized field and was ignored',
+		])
+	})
+
+	it('requires the loan fields for mortgages and the rent for renting', () => {
+		expect(
+			validateConfigData(configWith({ term: undefined, interestRate: null }))
+		).toEqual([
+			'initialScenarios[1].interestRate is required',
+			'initialScenarios[1].term is required',
+		])
+		const rent = {
+			name: 'Second',
+			type: 'rent',
+			downPaymentInput: undefined,
+			downPaymentType: undefined,
+			interestRate: undefined,
+			term: undefined,
+		}
+		expect(validateConfigData(configWith(rent))).toEqual([
+			'initialScenarios[1].monthlyRent is required',
+		])
+		expect(
+			validateConfigData(configWith({ ...rent, monthlyRent: 2500 }))
+		).toEqual([])
+	})
+
+	it('rejects empty and duplicate scenario names', () => {
+		expect(validateConfigData(configWith({ name: ' ' }))).toEqual([
+			'initialScenarios[1].name must not be empty',
+		])
+		expect(validateConfigData(configWith({ name: 'First' }))).toEqual([
+			'initialScenarios[1]: Scenario name "First" already exists. Please choose a unique name.',
+		])
+	})
+
+	it('rejects an amortization past the limit', () => {
+		expect(validateConfigData(configWith({ term: 500 }))).toEqual([
+			'initialScenarios[1].term must be at most 100',
+		])
+	})
+
+	it('requires whole years for rate changes and lump sums', () => {
+		const config = configWith({
+			variableRate: { ratePath: [{ year: 2.5, rate: 5 }] },
+			lumpSumPrepayments: [{ amount: 10000, year: 1.5 }],
+		})
+		expect(validateConfigData(config)).toEqual([
+			'initialScenarios[1].variableRate.ratePath[0].year must be a whole number',
+			'initialScenarios[1].lumpSumPrepayments[0].year must be a whole number',
+		])
+	})
+})
@@ -0,0 +1,381 @@
+// Schema validation for config.yaml and imported files. Every problem is
+// reported with the path to the field, e.g. "initialScenarios[1].term must be
+// positive", rather than rejecting the whole file with one generic message.
+import { validateMonteCarloSettings } from './monteCarlo'
+import {
+	COMPOUNDING_PERIODS_PER_YEAR,
+	INVESTMENT_ACCOUNT_LABELS,
+	MAX_AMORTIZATION_YEARS,
+	MORTGAGE_INSURANCE_LABELS,
+	MUNICIPAL_LAND_TRANSFER_TAX,
+	PAYMENTS_PER_YEAR,
+	PREPAYMENT_PENALTY_LABELS,
+	PROVINCIAL_LAND_TRANSFER_TAX,
+	validateAppreciationRate,
+	validateClosingCosts,
+	validateInflationRate,
+	validateInvestmentReturn,
+	validateInvestmentTax,
+	validateOwnershipCosts,
+	validateSaleSettings,
+	validateScenarioInputs,
+} from './mortgageCalculations'
+import { ConfigData } from './types'
+
+// Problems found in a config. Errors make it unusable; warnings don't, e.g. an
+// unrecognized field, which is ignored
+export interface ConfigValidationResult {
+	errors: string[]
+	warnings: string[]
+}
+
+// Checks one value, adding a message for each problem found
+type Check = (
+	problems: ConfigValidationResult,
+	path: string,
+	value: unknown
+) => void
+
+interface NumberRule {
+	min?: number
+	max?: number
+	positive?: boolean
+	integer?: boolean
+}
+
+// Helper function to extend a path, e.g. "sale" + "year" -> "sale.year"
+const fieldPath = (path: string, key: string) => (path ? `${path}.${key}` : key)
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// --- Building blocks. Fields are optional unless wrapped in required() ---
+
+const required =
+	(check: Check): Check =>
+	(problems, path, value) => {
+		if (value === undefined || value === null) {
+			problems.errors.push(`${path} is required`)
+			return
+		}
+		check(problems, path, value)
+	}
+
+const number =
+	(rule: NumberRule = {}): Check =>
+	(problems, path, value) => {
+		if (value === undefined) return
+		if (typeof value !== 'number' || !isFinite(value)) {
+			problems.errors.push(`${path} must be a number`)
+			return
+		}
+		if (rule.integer && !Number.isInteger(value)) {
+			problems.errors.push(`${path} must be a whole number`)
+		}
+		if (rule.positive && value <= 0) {
+			problems.errors.push(`${path} must be positive`)
+		}
+		if (rule.min !== undefined && value < rule.min) {
+			problems.errors.push(`${path} must be at least ${rule.min}`)
+		}
+		if (rule.max !== undefined && value > rule.max) {
+			problems.errors.push(`${path} must be at most ${rule.max}`)
+		}
+	}
+
+const text =
+	(pattern?: RegExp, format?: string): Check =>
+	(problems, path, value) => {
+		if (value === undefined) return
+		if (typeof value !== 'string') {
+			problems.errors.push(`${path} must be text`)
+		} else if (pattern && !pattern.test(value)) {
+			problems.errors.push(`${path} must be ${format}`)
+		}
+	}
+
+const nonEmptyText: Check = (problems, path, value) => {
+	text()(problems, path, value)
+	if (typeof value === 'string' && value.trim() === '') {
+		problems.errors.push(`${path} must not be empty`)
+	}
+}
+
+const boolean = (): Check => (problems, path, value) => {
+	if (value !== undefined && typeof value !== 'boolean') {
+		problems.errors.push(`${path} must be true or false`)
+	}
+}
+
+const oneOf =
+	(options: string[]): Check =>
+	(problems, path, value) => {
+		if (value !== undefined && !options.includes(value as string)) {
+			problems.errors.push(`${path} must be one of: ${options.join(', ')}`)
+		}
+	}
+
+const arrayOf =
+	(item: Check): Check =>
+	(problems, path, value) => {
+		if (value === undefined) return
+		if (!Array.isArray(value)) {
+			problems.errors.push(`${path} must be a list`)
+			return
+		}
+		value.forEach((entry, index) => item(problems, `${path}[${index}]`, entry))
+	}
+
+// Unknown fields are reported too, as warnings, since a misspelled one would
+// otherwise be silently ignored
+const object =
+	(fields: Record<string, Check>): Check =>
+	(problems, path, value) => {
+		if (value === undefined) return
+		if (!isPlainObject(value)) {
+			problems.errors.push(`${path} must be an object`)
+			return
+		}
+		Object.keys(value)
+			.filter((key) => !Object.hasOwn(fields, key))
+			.forEach((key) =>
+				problems.warnings.push(
+					`${fieldPath(path, key)} is not a recognized field and was ignored`
+				)
+			)
+		Object.entries(fields).forEach(([key, check]) =>
+			check(problems, fieldPath(path, key), value[key])
+		)
+	}
+
+// --- Schema, mirroring ConfigData and ScenarioConfig in types.ts ---
+
+const amount = number({ min: 0 })
+const month = number({ integer: true, min: 1, max: 12 })
+const percentOfPrice = number({ positive: true, max: 100 })
+
+// Changes apply from a whole loan year, e.g. year 3, month 6
+const rateChange = object({
+	year: required(number({ integer: true, min: 1 })),
+	month,
+	rate: required(number()),
+})
+
+const investmentReturnPath = arrayOf(
+	object({
+		year: required(number({ integer: true, min: 1 })),
+		rate: required(number()),
+	})
+)
+
+const investmentTax = object({
+	accountType: oneOf(Object.keys(INVESTMENT_ACCOUNT_LABELS)),
+	contributionRoom: amount,
+	annualContributionRoom: amount,
+	withdrawalTaxRate: number({ min: 0, max: 100 }),
+	capitalGainsTaxRate: number({ min: 0, max: 100 }),
+	dividendYield: amount,
+	dividendTaxRate: number({ min: 0, max: 100 }),
+})
+
+const ownershipCosts = object({
+	propertyTaxRate: amount,
+	insurance: amount,
+	insuranceInflation: number(),
+	hoaFees: amount,
+	hoaFeesInflation: number(),
+	maintenanceRate: amount,
+})
+
+const closingCosts = object({
+	legalFees: amount,
+	inspectionFees: amount,
+	otherFees: amount,
+	provincialTax: oneOf(['none', ...Object.keys(PROVINCIAL_LAND_TRANSFER_TAX)]),
+	municipalTax: oneOf(['none', ...Object.keys(MUNICIPAL_LAND_TRANSFER_TAX)]),
+	firstTimeBuyer: boolean(),
+})
+
+const sale = object({
+	year: number({ integer: true, min: 0 }),
+	commissionRate: number({ min: 0, max: 100 }),
+	closingCosts: amount,
+	prepaymentPenalty: oneOf(Object.keys(PREPAYMENT_PENALTY_LABELS)),
+	irdComparisonRate: amount,
+})
+
+const monteCarlo = object({
+	enabled: boolean(),
+	simulations: number({ integer: true, positive: true }),
+	mean: number(),
+	volatility: amount,
+	seed: number({ integer: true }),
+})
+
+// Loan fields are checked for mortgages only, since rent scenarios ignore them
+const mortgageFields: Record<string, Check> = {
+	downPaymentInput: required(amount),
+	downPaymentType: required(oneOf(['amount', 'percent'])),
+	interestRate: required(amount),
+	term: required(number({ positive: true, max: MAX_AMORTIZATION_YEARS })),
+}
+
+const rentFields: Record<string, Check> = {
+	monthlyRent: required(number({ positive: true })),
+}
+
+// Placeholder for fields checked by scenario type, below
+const checkedByType: Check = () => undefined
+
+const scenarioFields: Record<string, Check> = {
+	name: required(nonEmptyText),
+	type: oneOf(['mortgage', 'rent']),
+	downPaymentInput: checkedByType,
+	downPaymentType: checkedByType,
+	interestRate: checkedByType,
+	term: checkedByType,
+	rateTerms: arrayOf(
+		object({
+			years: required(number({ positive: true })),
+			interestRate: amount,
+		})
+	),
+	renewalRate: amount,
+	variableRate: object({
+		ratePath: arrayOf(rateChange),
+		primeRatePath: arrayOf(rateChange),
+		spread: number(),
+		paymentMode: oneOf(['floating', 'fixed']),
+	}),
+	homePrice: number({ positive: true }),
+	ownershipCosts,
+	closingCosts,
+	sale,
+	refinances: arrayOf(
+		object({
+			year: required(number({ integer: true, min: 2 })),
+			interestRate: required(amount),
+			term: required(number({ positive: true })),
+			cashOut: amount,
+			penalty: amount,
+			fees: amount,
+		})
+	),
+	mortgageInsurance: object({
+		type: required(oneOf(Object.keys(MORTGAGE_INSURANCE_LABELS))),
+		tiers: arrayOf(
+			object({
+				maxLtv: required(percentOfPrice),
+				rate: required(amount),
+			})
+		),
+		removalLtv: percentOfPrice,
+	}),
+	appreciationRate: number(),
+	investmentReturn: number(),
+	investmentReturnPath,
+	investmentTax,
+	firstPaymentDate: text(/^\d{4}-\d{2}-\d{2}$/, 'a date in YYYY-MM-DD format'),
+	compounding: oneOf(Object.keys(COMPOUNDING_PERIODS_PER_YEAR)),
+	paymentFrequency: oneOf(Object.keys(PAYMENTS_PER_YEAR)),
+	recurringPrepayments: arrayOf(
+		object({
+			amount: required(amount),
+			startYear: required(number({ min: 1 })),
+			endYear: number({ min: 1 }),
+		})
+	),
+	lumpSumPrepayments: arrayOf(
+		object({
+			amount: required(amount),
+			year: required(number({ integer: true, min: 1 })),
+			month,
+		})
+	),
+	monthlyRent: checkedByType,
+	annualRentIncrease: number(),
+	rentersInsurance: amount,
+}
+
+// Mortgage scenarios need the loan fields; rent scenarios need the rent
+const scenario: Check = (problems, path, value) => {
+	object(scenarioFields)(problems, path, value)
+	if (!isPlainObject(value)) return
+	const typeFields = value.type === 'rent' ? rentFields : mortgageFields
+	Object.entries(typeFields).forEach(([key, check]) =>
+		check(problems, fieldPath(path, key), value[key])
+	)
+}
+
+const configSchema = object({
+	homePrice: required(number({ positive: true })),
+	initialInvestments: required(amount),
+	appreciationRate: number(),
+	investmentReturn: number(),
+	investmentReturnPath,
+	monteCarlo,
+	investmentTax,
+	inflationRate: number(),
+	ownershipCosts,
+	closingCosts,
+	sale,
+	initialScenarios: required(arrayOf(scenario)),
+})
+
+// Helper function to check the rules that span fields (e.g. a down payment no
+// larger than the price), once every field has the right type
+const validateConfigRules = (config: ConfigData): string[] => {
+	const sectionErrors: [string, string | undefined][] = [
+		['appreciationRate', validateAppreciationRate(config.appreciationRate)],
+		[
+			'investmentReturn',
+			validateInvestmentReturn(
+				config.investmentReturn,
+				config.investmentReturnPath
+			),
+		],
+		['monteCarlo', validateMonteCarloSettings(config.monteCarlo)],
+		['investmentTax', validateInvestmentTax(config.investmentTax)],
+		['inflationRate', validateInflationRate(config.inflationRate)],
+		['ownershipCosts', validateOwnershipCosts(config.ownershipCosts)],
+		['closingCosts', validateClosingCosts(config.closingCosts)],
+		['sale', validateSaleSettings(config.sale)],
+		...config.initialScenarios.map((scenarioConfig, index) => {
+			// Names must be unique: charts, summaries and sheets are keyed by them
+			const validation = validateScenarioInputs(
+				config.homePrice,
+				scenarioConfig,
+				config.initialScenarios
+					.slice(0, index)
+					.map((previous) => previous.name.trim()),
+				scenarioConfig.name
+			)
+			return [
+				`initialScenarios[${index}]`,
+				validation.isValid ? undefined : validation.message,
+			] as [string, string | undefined]
+		}),
+	]
+	return sectionErrors
+		.filter(([, message]) => message !== undefined)
+		.map(([path, message]) => `${path}: ${message}`)
+}
+
+// Check a parsed config file, returning every problem found
+export const checkConfigData = (value: unknown): ConfigValidationResult => {
+	const problems: ConfigValidationResult = { errors: [], warnings: [] }
+	if (!isPlainObject(value)) {
+		problems.errors.push(
+			'The file must contain homePrice, initialInvestments and initialScenarios'
+		)
+		return problems
+	}
+	configSchema(problems, '', value)
+	if (problems.errors.length > 0) return problems
+	problems.errors.push(...validateConfigRules(value as unknown as ConfigData))
+	return problems
+}
+
+// Validate a parsed config file, returning only its errors (empty if usable)
+export const validateConfigData = (value: unknown): string[] =>
+	checkConfigData(value).errors
@@ -0,0 +1,26 @@
+// Saving generated files (exports, reports) from the browser, no server needed
+
+// Helper function to turn a workspace or scenario name into a safe file name,
+// e.g. "Oak St house" -> "Oak-St-house"
+export const toFileName = (name: string, extension: string): string => {
+	const base = name
+		.trim()
+		.replace(/[^\w\- ]+/g, '')
+		.replace(/\s+/g, '-')
+	return `${base || 'comparison'}.${extension}`
+}
+
+// Start a download of the given contents
+export const downloadFile = (
+	contents: BlobPart,
+	fileName: string,
+	mimeType: string
+): void => {
+	const url = URL.createObjectURL(new Blob([contents], { type: mimeType }))
+	const link = document.createElement('a')
+	link.href = url
+	link.download = fileName
+	link.click()
+	// Give the browser a moment to start the download before freeing the file
+	setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
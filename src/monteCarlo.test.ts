@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest'
+import {
+	createSeededRandom,
+	getPercentile,
+	runMonteCarloSimulation,
+} from './monteCarlo'
+import {
+	calculateScenariosWithInvestment,
+	createScenario,
+} from './mortgageCalculations'
+import {
+	ComparisonOptions,
+	MonteCarloSettings,
+	Scenario,
+	ScenarioConfig,
+} from './types'
+
+const OPTIONS: ComparisonOptions = {
+	initialInvestments: 150000,
+	maxYears: 10,
+	investmentReturn: 6,
+}
+const SETTINGS: MonteCarloSettings = {
+	enabled: true,
+	simulations: 200,
+	mean: 6,
+	volatility: 15,
+	seed: 42,
+}
+
+const create = (
+	name: string,
+	input: Omit<ScenarioConfig, 'name'>
+): Scenario => {
+	const result = createScenario(500000, input, [], name)
+	if (result.error !== undefined) throw new Error(result.error)
+	return result.scenario
+}
+
+// Buying puts most of the savings into the home; renting keeps them invested,
+// so the two react differently to the market
+const SCENARIOS = [
+	create('Buy', {
+		downPaymentInput: 20,
+		downPaymentType: 'percent',
+		interestRate: 5,
+		term: 25,
+		firstPaymentDate: '2025-01-01',
+	}),
+	create('Rent', {
+		type: 'rent',
+		monthlyRent: 2500,
+		downPaymentInput: 0,
+		downPaymentType: 'amount',
+		interestRate: 0,
+		term: 0,
+	}),
+]
+
+describe('createSeededRandom', () => {
+	it('repeats the same sequence for the same seed', () => {
+		const first = createSeededRandom(42)
+		const second = createSeededRandom(42)
+		const other = createSeededRandom(43)
+		const values = Array.from({ length: 5 }, () => first())
+		expect(Array.from({ length: 5 }, () => second())).toEqual(values)
+		expect(Array.from({ length: 5 }, () => other())).not.toEqual(values)
+		values.forEach((value) => {
+			expect(value).toBeGreaterThanOrEqual(0)
+			expect(value).toBeLessThan(1)
+		})
+	})
+})
+
+describe('getPercentile', () => {
+	it('interpolates between the closest ranks', () => {
+		const values = [1, 2, 3, 4, 5]
+		expect(getPercentile(values, 50)).toBe(3)
+		expect(getPercentile(values, 10)).toBeCloseTo(1.4, 10)
+		expect(getPercentile(values, 90)).toBeCloseTo(4.6, 10)
+		expect(getPercentile(values, 0)).toBe(1)
+		expect(getPercentile(values, 100)).toBe(5)
+	})
+
+	it('handles no values and a single value', () => {
+		expect(getPercentile([], 50)).toBe(0)
+		expect(getPercentile([7], 90)).toBe(7)
+	})
+})
+
+describe('runMonteCarloSimulation', () => {
+	it('gives identical results for the same seed', () => {
+		const first = runMonteCarloSimulation(SCENARIOS, OPTIONS, SETTINGS)
+		expect(runMonteCarloSimulation(SCENARIOS, OPTIONS, SETTINGS)).toEqual(first)
+		expect(
+			runMonteCarloSimulation(SCENARIOS, OPTIONS, { ...SETTINGS, seed: 7 })
+		).not.toEqual(first)
+	})
+
+	it('orders the percentile bands every year', () => {
+		const { percentiles } = runMonteCarloSimulation(
+			SCENARIOS,
+			OPTIONS,
+			SETTINGS
+		)
+		percentiles.forEach(({ years }) => {
+			expect(years).toHaveLength(OPTIONS.maxYears)
+			years.forEach(({ p10, p50, p90 }) => {
+				expect(p10).toBeLessThanOrEqual(p50)
+				expect(p50).toBeLessThanOrEqual(p90)
+			})
+			// Volatile returns spread the outcomes by the last year
+			const lastYear = years[years.length - 1]
+			expect(lastYear.p90).toBeGreaterThan(lastYear.p10)
+		})
+	})
+
+	it("gives win probabilities that sum to 1 with the other scenario's", () => {
+		const { winProbabilities: buyVsRent } = runMonteCarloSimulation(
+			SCENARIOS,
+			OPTIONS,
+			SETTINGS
+		)
+		const { winProbabilities: rentVsBuy } = runMonteCarloSimulation(
+			[...SCENARIOS].reverse(),
+			OPTIONS,
+			SETTINGS
+		)
+		expect(buyVsRent[0].scenarioA).toBe('Buy')
+		expect(rentVsBuy[0].scenarioA).toBe('Rent')
+		buyVsRent[0].probabilities.forEach((probability, i) => {
+			expect(probability).toBeGreaterThanOrEqual(0)
+			expect(probability).toBeLessThanOrEqual(1)
+			expect(probability + rentVsBuy[0].probabilities[i]).toBeCloseTo(1, 10)
+		})
+	})
+
+	it('counts ties as a win for neither scenario', () => {
+		const twin = { ...SCENARIOS[0], name: 'Buy Again' }
+		const { winProbabilities } = runMonteCarloSimulation(
+			[SCENARIOS[0], twin],
+			OPTIONS,
+			SETTINGS
+		)
+		expect(winProbabilities[0].probabilities.every((p) => p === 0)).toBe(true)
+	})
+
+	it('matches the plain comparison when returns never vary', () => {
+		const { percentiles } = runMonteCarloSimulation(SCENARIOS, OPTIONS, {
+			...SETTINGS,
+			simulations: 3,
+			volatility: 0,
+		})
+		const expected = calculateScenariosWithInvestment(SCENARIOS, OPTIONS)
+		percentiles.forEach(({ years }, index) => {
+			years.forEach(({ year, p10, p90 }) => {
+				const netWorth = expected[index].yearlyData.find(
+					(data) => data.year === year
+				)!.totalNetWorth!
+				expect(p10).toBeCloseTo(netWorth, 6)
+				expect(p90).toBeCloseTo(netWorth, 6)
+			})
+		})
+	})
+})
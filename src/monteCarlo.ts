@@ -0,0 +1,191 @@
+// Monte Carlo simulation of investment returns. Runs many random return paths
+// through the same "invest the difference" comparison as the deterministic
+// projection. Pure like mortgageCalculations.ts, and reproducible for a given seed.
+import {
+	calculateScenariosWithInvestment,
+	getRealDollarFactor,
+} from './mortgageCalculations'
+import {
+	ComparisonOptions,
+	InvestmentReturnChange,
+	MonteCarloResult,
+	MonteCarloSettings,
+	Scenario,
+} from './types'
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+	enabled: false,
+	simulations: 1000,
+	mean: 7,
+	volatility: 15,
+	seed: 42,
+}
+
+export const MAX_SIMULATIONS = 10000
+
+// Returns are drawn from a normal distribution; anything at or below -100%
+// would wipe out the portfolio entirely, so clamp just above it
+const MIN_SIMULATED_RETURN = -99
+
+// Helper function to validate Monte Carlo settings, returning an error message
+export const validateMonteCarloSettings = (
+	settings: Partial<MonteCarloSettings> | undefined
+): string | undefined => {
+	if (!settings) return undefined
+	const { simulations, mean, volatility, seed } = settings
+	if (
+		simulations !== undefined &&
+		(!Number.isInteger(simulations) ||
+			simulations < 1 ||
+			simulations > MAX_SIMULATIONS)
+	) {
+		return `Simulations must be a whole number between 1 and ${MAX_SIMULATIONS}.`
+	}
+	if (mean !== undefined && (!isFinite(mean) || mean <= -100)) {
+		return 'Mean return must be greater than -100%.'
+	}
+	if (volatility !== undefined && (!isFinite(volatility) || volatility < 0)) {
+		return 'Volatility cannot be negative.'
+	}
+	if (seed !== undefined && !Number.isInteger(seed)) {
+		return 'Seed must be a whole number.'
+	}
+	return undefined
+}
+
+// Seeded pseudo-random number generator (mulberry32), uniform in [0, 1)
+export const createSeededRandom = (seed: number): (() => number) => {
+	let state = seed >>> 0
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0
+		let t = state
+		t = Math.imul(t ^ (t >>> 15), t | 1)
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+	}
+}
+
+// Helper function to draw a standard normal value (Box-Muller transform)
+const nextStandardNormal = (random: () => number): number => {
+	const u1 = 1 - random() // Avoid log(0)
+	const u2 = random()
+	return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
+}
+
+// Helper function to find the given percentile (0-100) of sorted values,
+// interpolating between the closest ranks
+export const getPercentile = (sortedValues: number[], percentile: number) => {
+	if (sortedValues.length === 0) return 0
+	const rank = (percentile / 100) * (sortedValues.length - 1)
+	const lower = Math.floor(rank)
+	const upper = Math.ceil(rank)
+	return (
+		sortedValues[lower] +
+		(sortedValues[upper] - sortedValues[lower]) * (rank - lower)
+	)
+}
+
+// Run the comparison once per simulated return path. Every scenario sees the
+// same market in a given simulation; scenarios with their own return settings
+// keep them, since those describe a different (e.g. guaranteed) investment.
+// onProgress is called about every 5% of the way through.
+export const runMonteCarloSimulation = (
+	scenarios: Scenario[],
+	options: ComparisonOptions,
+	settings: MonteCarloSettings,
+	onProgress?: (completed: number, total: number) => void
+): MonteCarloResult => {
+	const { maxYears } = options
+	const simulations = Math.max(1, Math.floor(settings.simulations))
+	const random = createSeededRandom(settings.seed)
+	const progressInterval = Math.max(1, Math.floor(simulations / 20))
+
+	// Net worth of every simulation, indexed [scenario][year - 1][simulation]
+	const netWorths = scenarios.map(() =>
+		Array.from({ length: maxYears }, () => new Float64Array(simulations))
+	)
+
+	for (let simulation = 0; simulation < simulations; simulation++) {
+		const returnPath: InvestmentReturnChange[] = Array.from(
+			{ length: maxYears },
+			(_, i) => ({
+				year: i + 1,
+				rate: Math.max(
+					MIN_SIMULATED_RETURN,
+					settings.mean + settings.volatility * nextStandardNormal(random)
+				),
+			})
+		)
+		const results = calculateScenariosWithInvestment(scenarios, {
+			...options,
+			investmentReturn: settings.mean,
+			investmentReturnPath: returnPath,
+		})
+		results.forEach((scenario, scenarioIndex) => {
+			scenario.yearlyData.forEach((data) => {
+				if (data.year >= 1 && data.year <= maxYears) {
+					netWorths[scenarioIndex][data.year - 1][simulation] =
+						data.totalNetWorth ?? 0
+				}
+			})
+		})
+		if ((simulation + 1) % progressInterval === 0) {
+			onProgress?.(simulation + 1, simulations)
+		}
+	}
+
+	const percentiles = scenarios.map((scenario, scenarioIndex) => ({
+		scenarioName: scenario.name,
+		years: netWorths[scenarioIndex].map((values, i) => {
+			const sortedValues = Array.from(values).sort((a, b) => a - b)
+			return {
+				year: i + 1,
+				p10: getPercentile(sortedValues, 10),
+				p50: getPercentile(sortedValues, 50),
+				p90: getPercentile(sortedValues, 90),
+			}
+		}),
+	}))
+
+	// Share of simulations where A ends the year with a higher net worth than B
+	const winProbabilities = scenarios.flatMap((scenarioA, indexA) =>
+		scenarios.slice(indexA + 1).map((scenarioB, offset) => {
+			const indexB = indexA + 1 + offset
+			return {
+				scenarioA: scenarioA.name,
+				scenarioB: scenarioB.name,
+				probabilities: netWorths[indexA].map((valuesA, i) => {
+					const valuesB = netWorths[indexB][i]
+					let wins = 0
+					for (let simulation = 0; simulation < simulations; simulation++) {
+						if (valuesA[simulation] > valuesB[simulation]) wins++
+					}
+					return wins / simulations
+				}),
+			}
+		})
+	)
+
+	return { simulations, percentiles, winProbabilities }
+}
+
+// Convert the percentile bands to today's dollars, for display. Win
+// probabilities compare scenarios within a year, so inflation doesn't change them.
+export const adjustMonteCarloResultForInflation = (
+	result: MonteCarloResult,
+	inflationRate: number
+): MonteCarloResult => ({
+	...result,
+	percentiles: result.percentiles.map((scenarioPercentiles) => ({
+		...scenarioPercentiles,
+		years: scenarioPercentiles.years.map((p) => {
+			const factor = getRealDollarFactor(inflationRate, p.year)
+			return {
+				year: p.year,
+				p10: p.p10 * factor,
+				p50: p.p50 * factor,
+				p90: p.p90 * factor,
+			}
+		}),
+	})),
+})
@@ -0,0 +1,802 @@
+import { describe, expect, it } from 'vitest'
+import {
+	calculateClosingCosts,
+	calculateLandTransferTax,
+	calculateMortgageAmortization,
+	calculatePrepaymentPenalty,
+	calculateScenariosWithInvestment,
+	createScenario,
+	DEFAULT_CLOSING_COSTS,
+	DEFAULT_SALE_SETTINGS,
+	getRegularPayment,
+	getScenarioConfig,
+	PROVINCIAL_LAND_TRANSFER_TAX,
+	updateScenarioHomePrice,
+	validateClosingCosts,
+	validateInvestmentTax,
+	validateSaleSettings,
+	validateScenarioInputs,
+} from './mortgageCalculations'
+import {
+	AmortizationOptions,
+	CompoundingFrequency,
+	InvestmentAccountType,
+	MortgageInsuranceType,
+	PaymentFrequency,
+	PrepaymentPenaltyType,
+	Scenario,
+	ScenarioConfig,
+} from './types'
+
+const OPTIONS: AmortizationOptions = { firstPaymentDate: '2025-01-01' }
+
+// Helper function to check a schedule ends fully paid, with no NaN anywhere
+const expectPaidOff = (principal: number, termYears: number) => {
+	const result = calculateMortgageAmortization(principal, 6, termYears, {
+		...OPTIONS,
+		compounding: 'semi-annual',
+	})
+	expect(result).not.toBeNull()
+	const lastYear = result!.yearlyData[result!.yearlyData.length - 1]
+	expect(lastYear.endingBalance).toBeCloseTo(0, 6)
+	expect(lastYear.totalPrincipalPaid).toBeCloseTo(principal, 6)
+	return result!
+}
+
+// Helper function to create a $400k loan at 5% over 25 years ($500k home, 20%
+// down), with some of its options changed
+const createLoan = (options: Partial<ScenarioConfig> = {}): Scenario => {
+	const result = createScenario(
+		500000,
+		{
+			downPaymentInput: 20,
+			downPaymentType: 'percent',
+			interestRate: 5,
+			term: 25,
+			firstPaymentDate: '2025-01-01',
+			...options,
+		},
+		[],
+		'Loan'
+	)
+	if (result.error !== undefined) throw new Error(result.error)
+	return result.scenario
+}
+
+describe('getRegularPayment', () => {
+	it('matches the US known answer: $100k at 6% over 30 years, monthly', () => {
+		expect(getRegularPayment(100000, 6, 'monthly', 'monthly', 360)).toBeCloseTo(
+			599.55,
+			2
+		)
+	})
+
+	it('matches the Canadian known answer: $100k at 6% compounded semi-annually over 25 years', () => {
+		expect(
+			getRegularPayment(100000, 6, 'semi-annual', 'monthly', 300)
+		).toBeCloseTo(639.81, 2)
+	})
+
+	it('divides the principal evenly at a 0% rate', () => {
+		expect(getRegularPayment(120000, 0, 'monthly', 'monthly', 120)).toBe(1000)
+	})
+})
+
+describe('calculateMortgageAmortization', () => {
+	it('pays off a 0% loan in equal principal payments', () => {
+		const result = calculateMortgageAmortization(120000, 0, 10, OPTIONS)!
+		expect(result.paymentAmount).toBe(1000)
+		expect(result.yearlyData).toHaveLength(10)
+		result.yearlyData.forEach((data) => {
+			expect(data.interestPaidYearly).toBe(0)
+			expect(data.principalPaidYearly).toBeCloseTo(12000, 6)
+		})
+		expect(result.yearlyData[9].endingBalance).toBeCloseTo(0, 6)
+	})
+
+	it('returns an all-zero schedule for zero principal', () => {
+		const result = calculateMortgageAmortization(0, 5, 30, OPTIONS)!
+		expect(result.paymentAmount).toBe(0)
+		expect(result.paymentSchedule).toEqual([])
+		result.yearlyData.forEach((data) =>
+			Object.values(data).forEach((value) => {
+				expect(Number.isNaN(value)).toBe(false)
+				if (typeof value === 'number' && value !== data.year) {
+					expect(value).toBe(0)
+				}
+			})
+		)
+	})
+
+	it('rejects a zero or negative term', () => {
+		expect(calculateMortgageAmortization(100000, 5, 0, OPTIONS)).toBeNull()
+		expect(calculateMortgageAmortization(100000, 5, -1, OPTIONS)).toBeNull()
+	})
+
+	it('pays off a one-year term within year 1', () => {
+		const result = expectPaidOff(100000, 1)
+		expect(result.yearlyData).toHaveLength(1)
+		expect(result.paymentSchedule).toHaveLength(12)
+	})
+
+	it('pays off a fractional term in its last partial year', () => {
+		const result = expectPaidOff(100000, 2.5)
+		expect(result.paymentSchedule).toHaveLength(30)
+		expect(result.yearlyData).toHaveLength(3)
+	})
+
+	it('pays off accelerated bi-weekly years early', () => {
+		const regular = expectPaidOff(100000, 25)
+		const accelerated = calculateMortgageAmortization(100000, 6, 25, {
+			...OPTIONS,
+			compounding: 'semi-annual',
+			paymentFrequency: 'accelerated-bi-weekly',
+		})!
+		expect(regular.yearlyData).toHaveLength(25)
+		// Half the 639.81 monthly payment every two weeks
+		expect(accelerated.paymentAmount).toBeCloseTo(639.81 / 2, 2)
+		expect(accelerated.yearlyData[accelerated.yearlyData.length - 1].year).toBe(
+			22
+		)
+	})
+})
+
+describe('createScenario', () => {
+	it('handles a down payment covering the whole price without NaN', () => {
+		const result = createScenario(
+			500000,
+			{
+				downPaymentInput: 100,
+				downPaymentType: 'percent',
+				interestRate: 0,
+				term: 30,
+			},
+			[],
+			'Cash Purchase'
+		)
+		if (result.error !== undefined) throw new Error(result.error)
+		expect(result.scenario.downPayment).toBe(500000)
+		expect(result.scenario.paymentAmount).toBe(0)
+		expect(result.scenario.yearlyData[0].endingBalance).toBe(0)
+		expect(result.scenario.interestSaved).toBe(0)
+	})
+})
+
+describe('getScenarioConfig', () => {
+	it('only keeps a home price the scenario set itself', () => {
+		const loan = createLoan()
+		expect(loan.homePrice).toBe(500000)
+		expect(getScenarioConfig(loan)).not.toHaveProperty('homePrice')
+		expect(getScenarioConfig(createLoan({ homePrice: 650000 }))).toMatchObject({
+			homePrice: 650000,
+		})
+	})
+
+	it('recreates the scenario from its config at the global price', () => {
+		const loan = createLoan({
+			lumpSumPrepayments: [{ amount: 10000, year: 2 }],
+		})
+		const config = getScenarioConfig(loan)
+		expect(config).not.toHaveProperty('yearlyData')
+		const result = createScenario(600000, config, [], config.name)
+		if (result.error !== undefined) throw new Error(result.error)
+		expect(result.scenario.homePrice).toBe(600000)
+		expect(result.scenario.downPayment).toBe(120000)
+		expect(result.scenario.lumpSumPrepayments).toEqual(loan.lumpSumPrepayments)
+	})
+})
+
+describe('updateScenarioHomePrice', () => {
+	it('moves scenarios without their own price to the global one', () => {
+		const updated = updateScenarioHomePrice(createLoan(), 600000)
+		expect(updated.homePrice).toBe(600000)
+		expect(updated.downPayment).toBe(120000)
+		expect(updated.yearlyData[0].beginningBalance).toBe(480000)
+	})
+
+	it('leaves scenarios with their own price alone', () => {
+		const loan = createLoan({ homePrice: 650000 })
+		expect(updateScenarioHomePrice(loan, 600000)).toBe(loan)
+	})
+
+	it('keeps the scenario while the new price is invalid for it', () => {
+		const loan = createLoan({
+			downPaymentInput: 150000,
+			downPaymentType: 'amount',
+		})
+		expect(updateScenarioHomePrice(loan, 100000)).toBe(loan)
+	})
+})
+
+describe('calculateScenariosWithInvestment', () => {
+	// The summary cards read the sale from these results, not from createScenario
+	it('records the sale year and the proceeds invested that year', () => {
+		const result = createScenario(
+			500000,
+			{
+				downPaymentInput: 20,
+				downPaymentType: 'percent',
+				interestRate: 5,
+				term: 25,
+				sale: { year: 10 },
+			},
+			[],
+			'Sell After 10'
+		)
+		if (result.error !== undefined) throw new Error(result.error)
+		expect(result.scenario.saleYear).toBeUndefined()
+
+		const [processed] = calculateScenariosWithInvestment([result.scenario], {
+			initialInvestments: 200000,
+			maxYears: 30,
+			investmentReturn: 6,
+		})
+		expect(processed.saleYear).toBe(10)
+		const saleData = processed.yearlyData.find((data) => data.year === 10)
+		expect(saleData?.saleProceeds).toBeGreaterThan(0)
+		expect(processed.closingCostBreakdown?.total).toBeGreaterThanOrEqual(0)
+	})
+
+	it('leaves out years past the horizon', () => {
+		const result = createScenario(
+			500000,
+			{
+				downPaymentInput: 20,
+				downPaymentType: 'percent',
+				interestRate: 5,
+				term: 30,
+			},
+			[],
+			'Thirty Years'
+		)
+		if (result.error !== undefined) throw new Error(result.error)
+
+		const [processed] = calculateScenariosWithInvestment([result.scenario], {
+			initialInvestments: 200000,
+			maxYears: 10,
+			investmentReturn: 6,
+		})
+		expect(processed.yearlyData.map((data) => data.year)).toEqual([
+			1, 2, 3, 4, 5, 6, 7, 8, 9, 10,
+		])
+	})
+
+	it('bases property tax and maintenance on the appreciated value', () => {
+		const [processed] = calculateScenariosWithInvestment([createLoan()], {
+			initialInvestments: 200000,
+			maxYears: 3,
+			investmentReturn: 6,
+			appreciationRate: 5,
+			ownershipCosts: {
+				propertyTaxRate: 1,
+				maintenanceRate: 0.5,
+				insurance: 1200,
+				insuranceInflation: 10,
+			},
+		})
+		// Each year's rate applies to the value at the start of that year:
+		// $500,000, then $525,000, then $551,250
+		expect(
+			processed.yearlyData.map((data) => [
+				data.propertyTaxYearly,
+				data.maintenanceYearly,
+			])
+		).toEqual([
+			[5000, 2500],
+			[5250, 2625],
+			[5512.5, 2756.25],
+		])
+		expect(processed.yearlyData[2].insuranceYearly).toBeCloseTo(1452, 6)
+		expect(processed.yearlyData[0].homeValue).toBe(525000)
+	})
+
+	// $200k less the $100k down payment is invested at 10%, with no closing
+	// costs and nothing else saved against the one scenario
+	it('taxes dividends yearly and capital gains on liquidation', () => {
+		const [processed] = calculateScenariosWithInvestment([createLoan()], {
+			initialInvestments: 200000,
+			maxYears: 2,
+			investmentReturn: 10,
+			investmentTax: {
+				capitalGainsTaxRate: 20,
+				dividendYield: 2,
+				dividendTaxRate: 25,
+			},
+		})
+		const [year1, year2] = processed.yearlyData
+		// Year 1: $2,000 of dividends taxed $500, the rest reinvested, so the
+		// cost basis is $101,500 and the $8,000 gain owes $1,600 when sold
+		expect(year1.investmentTaxYearly).toBeCloseTo(500, 6)
+		expect(year1.taxableInvestmentValue).toBeCloseTo(109500, 6)
+		expect(year1.taxableCostBasis).toBeCloseTo(101500, 6)
+		expect(year1.liquidationTax).toBeCloseTo(1600, 6)
+		expect(year1.afterTaxInvestmentValue).toBeCloseTo(107900, 6)
+		expect(year1.totalNetWorth).toBeCloseTo(year1.homeEquity! + 107900, 6)
+		// Year 2: $2,190 of dividends taxed $547.50; a $16,760 gain owes $3,352
+		expect(year2.investmentTaxYearly).toBeCloseTo(547.5, 6)
+		expect(year2.taxableInvestmentValue).toBeCloseTo(119902.5, 6)
+		expect(year2.taxableCostBasis).toBeCloseTo(103142.5, 6)
+		expect(year2.liquidationTax).toBeCloseTo(3352, 6)
+		expect(year2.afterTaxInvestmentValue).toBeCloseTo(116550.5, 6)
+	})
+
+	it('taxes tax-deferred withdrawals at the withdrawal rate', () => {
+		const [processed] = calculateScenariosWithInvestment([createLoan()], {
+			initialInvestments: 200000,
+			maxYears: 1,
+			investmentReturn: 10,
+			investmentTax: {
+				accountType: 'rrsp',
+				contributionRoom: 20000,
+				withdrawalTaxRate: 25,
+				capitalGainsTaxRate: 20,
+			},
+		})
+		const [year1] = processed.yearlyData
+		// $15,000 plus its $5,000 refund fills the $20,000 of room; the other
+		// $85,000 is taxable. Sold after a 10% year: 25% of $22,000 plus 20%
+		// of the $8,500 gain.
+		expect(year1.shelteredInvestmentValue).toBeCloseTo(22000, 6)
+		expect(year1.taxableInvestmentValue).toBeCloseTo(93500, 6)
+		expect(year1.taxableCostBasis).toBeCloseTo(85000, 6)
+		expect(year1.liquidationTax).toBeCloseTo(5500 + 1700, 6)
+		expect(year1.afterTaxInvestmentValue).toBeCloseTo(108300, 6)
+	})
+})
+
+describe('renewals', () => {
+	it('recalculates the payment on the balance left at each renewal', () => {
+		const loan = createLoan({
+			rateTerms: [{ years: 5 }, { years: 5, interestRate: 7 }],
+			renewalRate: 6,
+		})
+		expect(loan.renewals.map((r) => [r.year, r.interestRate])).toEqual([
+			[6, 7],
+			[11, 6],
+			[16, 6],
+			[21, 6],
+		])
+		// Year 6: what's left after 60 payments, over the remaining 240 at 7%
+		const balanceAfterTerm1 = loan.yearlyData[4].endingBalance
+		const secondPayment = getRegularPayment(
+			balanceAfterTerm1,
+			7,
+			'monthly',
+			'monthly',
+			240
+		)
+		expect(loan.renewals[0].paymentAmount).toBeCloseTo(secondPayment, 6)
+		// $354,320.76 left, at 7% over 20 years
+		expect(balanceAfterTerm1).toBeCloseTo(354320.76, 2)
+		expect(secondPayment).toBeCloseTo(2747.05, 2)
+		expect(loan.paymentSchedule[59].payment).toBeCloseTo(2338.36, 2)
+		expect(loan.paymentSchedule[60].payment).toBeCloseTo(secondPayment, 6)
+		expect(loan.paymentSchedule[60].interestRate).toBe(7)
+		// Year 11 at the 6% renewal rate, over the remaining 180
+		expect(loan.renewals[1].paymentAmount).toBeCloseTo(
+			getRegularPayment(
+				loan.yearlyData[9].endingBalance,
+				6,
+				'monthly',
+				'monthly',
+				180
+			),
+			6
+		)
+		expect(loan.payoffYear).toBe(25)
+		expect(loan.yearlyData[24].endingBalance).toBeCloseTo(0, 6)
+	})
+
+	it('keeps the payment when the rate is unchanged', () => {
+		const loan = createLoan({ rateTerms: [{ years: 5 }], renewalRate: 5 })
+		loan.renewals.forEach((renewal) =>
+			expect(renewal.paymentAmount).toBeCloseTo(loan.paymentAmount, 6)
+		)
+	})
+})
+
+describe('variable rates', () => {
+	it('recalculates a floating payment when the rate changes', () => {
+		const loan = createLoan({
+			variableRate: { ratePath: [{ year: 2, rate: 6 }] },
+		})
+		// What's left after 12 payments, over the remaining 288 at 6%
+		expect(loan.paymentSchedule[12].payment).toBeCloseTo(
+			getRegularPayment(
+				loan.yearlyData[0].endingBalance,
+				6,
+				'monthly',
+				'monthly',
+				288
+			),
+			6
+		)
+		expect(loan.paymentSchedule[12].payment).toBeCloseTo(2569.81, 2)
+		expect(loan.payoffYear).toBe(25)
+		expect(loan.warnings).toEqual([])
+	})
+
+	it('keeps a fixed payment and runs past the term when the rate rises', () => {
+		const loan = createLoan({
+			variableRate: { ratePath: [{ year: 2, rate: 6 }], paymentMode: 'fixed' },
+		})
+		// Every payment but the last stays at the original $2,338.36
+		loan.paymentSchedule
+			.slice(0, -1)
+			.forEach((payment) => expect(payment.payment).toBeCloseTo(2338.36, 2))
+		expect(loan.payoffYear).toBe(32)
+		expect(loan.yearlyData[31].endingBalance).toBe(0)
+		expect(loan.yearlyData[31].totalPrincipalPaid).toBeCloseTo(400000, 6)
+		expect(loan.warnings).toEqual([])
+	})
+
+	it('warns about negative amortization past the trigger rate', () => {
+		const loan = createLoan({
+			variableRate: { ratePath: [{ year: 2, rate: 15 }], paymentMode: 'fixed' },
+		})
+		// $391,752.37 left after year 1; 15% on that is $4,896.90 a month,
+		// so $2,558.54 of each payment's interest goes unpaid
+		const firstPayment = loan.paymentSchedule[12]
+		expect(loan.yearlyData[0].endingBalance).toBeCloseTo(391752.37, 2)
+		expect(firstPayment.interest).toBeCloseTo(4896.9, 2)
+		expect(firstPayment.principal).toBeCloseTo(-2558.54, 2)
+		expect(firstPayment.balance).toBeCloseTo(394310.92, 2)
+		expect(firstPayment.negativeAmortization).toBe(true)
+		expect(loan.paymentSchedule[11].negativeAmortization).toBeUndefined()
+		expect(loan.yearlyData[1].negativeAmortization).toBe(true)
+		expect(loan.warnings).toEqual([
+			'From 2026-01-01 (year 2) the payment no longer covers the interest at 15%, so the balance grows (negative amortization).',
+			'The loan is still not paid off after 100 years at the fixed payment.',
+		])
+	})
+})
+
+describe('mortgage insurance', () => {
+	it('adds the CMHC premium to the loan', () => {
+		const loan = createLoan({
+			downPaymentInput: 10,
+			mortgageInsurance: { type: 'cmhc' },
+		})
+		// $450,000 borrowed at 90% LTV: 3.1% is $13,950, amortized with it
+		expect(loan.mortgageInsuranceDetails).toEqual({
+			type: 'cmhc',
+			loanToValue: 90,
+			rate: 3.1,
+			premium: 13950,
+		})
+		expect(loan.yearlyData[0].beginningBalance).toBe(463950)
+		expect(loan.paymentAmount).toBeCloseTo(
+			getRegularPayment(463950, 5, 'monthly', 'monthly', 300),
+			6
+		)
+		expect(loan.paymentAmount).toBeCloseTo(2712.21, 2)
+		expect(loan.yearlyData[24].totalPrincipalPaid).toBeCloseTo(463950, 6)
+	})
+
+	it('charges PMI until the balance reaches 78% of the price', () => {
+		const loan = createLoan({
+			downPaymentInput: 10,
+			mortgageInsurance: { type: 'pmi' },
+		})
+		// 0.5% of $450,000 a year, $187.50 a month, on the loan only
+		expect(loan.mortgageInsuranceDetails).toMatchObject({
+			type: 'pmi',
+			loanToValue: 90,
+			rate: 0.5,
+			premium: 2250,
+		})
+		expect(loan.yearlyData[0].beginningBalance).toBe(450000)
+		// Payment 69 (September of year 6) takes the balance to $389,735.97,
+		// under the $390,000 threshold, so it's the last one with a premium
+		expect(loan.paymentSchedule[68].balance).toBeCloseTo(389735.97, 2)
+		expect(loan.paymentSchedule[68].mortgageInsurance).toBeCloseTo(187.5, 6)
+		expect(loan.paymentSchedule[69].mortgageInsurance).toBe(0)
+		expect(loan.mortgageInsuranceDetails?.removalYear).toBe(6)
+		expect(
+			loan.yearlyData.slice(0, 7).map((data) => data.mortgageInsuranceYearly)
+		).toEqual([2250, 2250, 2250, 2250, 2250, 1687.5, 0])
+	})
+
+	it('stops PMI at a custom removal LTV', () => {
+		const loan = createLoan({
+			downPaymentInput: 10,
+			mortgageInsurance: { type: 'pmi', removalLtv: 88 },
+		})
+		// $440,721.42 is still owed after year 1, so only the first payment
+		// of year 2 carries a premium
+		expect(loan.yearlyData[0].endingBalance).toBeCloseTo(440721.42, 2)
+		expect(loan.paymentSchedule[12].balance).toBeLessThan(440000)
+		expect(loan.mortgageInsuranceDetails?.removalYear).toBe(2)
+		expect(loan.yearlyData[1].mortgageInsuranceYearly).toBeCloseTo(187.5, 6)
+	})
+})
+
+describe('closing costs', () => {
+	it('charges Ontario and Toronto land transfer tax less the rebates', () => {
+		// Each: 0.5% to $55k, 1% to $250k, 1.5% to $400k, 2% on the last
+		// $300k = $10,475, less $4,000 (Ontario) and $4,475 (Toronto)
+		expect(
+			calculateClosingCosts(700000, {
+				...DEFAULT_CLOSING_COSTS,
+				legalFees: 1500,
+				provincialTax: 'ontario',
+				municipalTax: 'toronto',
+				firstTimeBuyer: true,
+			})
+		).toEqual({
+			fees: 1500,
+			provincialTax: 6475,
+			municipalTax: 6000,
+			firstTimeBuyerRebate: 8475,
+			total: 13975,
+		})
+	})
+
+	it('only rebates first-time buyers', () => {
+		const breakdown = calculateClosingCosts(700000, {
+			...DEFAULT_CLOSING_COSTS,
+			provincialTax: 'ontario',
+			municipalTax: 'toronto',
+		})
+		expect(breakdown.provincialTax).toBe(10475)
+		expect(breakdown.municipalTax).toBe(10475)
+		expect(breakdown.firstTimeBuyerRebate).toBe(0)
+	})
+
+	it('caps the rebate at the tax and the maximum price', () => {
+		const britishColumbia = PROVINCIAL_LAND_TRANSFER_TAX['british-columbia']
+		// 1% to $200k, 2% on the rest: $8,000, all of it rebated
+		expect(calculateLandTransferTax(500000, britishColumbia, true)).toEqual({
+			tax: 8000,
+			rebate: 8000,
+		})
+		// Over the $835k limit there's no rebate
+		expect(calculateLandTransferTax(900000, britishColumbia, true)).toEqual({
+			tax: 16000,
+			rebate: 0,
+		})
+	})
+})
+
+describe('prepayments', () => {
+	it('pays off early and reports the interest saved', () => {
+		// $2,338.36 a month plus $500 pays off $400k at 5% in 213 payments
+		const loan = createLoan({
+			recurringPrepayments: [{ amount: 500, startYear: 1 }],
+		})
+		expect(loan.paymentSchedule).toHaveLength(213)
+		expect(loan.payoffYear).toBe(18)
+		// The last one only covers what's left
+		expect(loan.paymentSchedule[212].payment).toBeCloseTo(2238.76, 2)
+		// $301,508.05 of interest over 25 years, vs $203,971.11
+		expect(createLoan().interestSaved).toBe(0)
+		expect(loan.interestSaved).toBeCloseTo(97536.94, 1)
+	})
+
+	it('applies a lump sum with the first payment of its month', () => {
+		// $120k at 0% over 10 years is $1,000 a month; $60k more in month 1
+		// leaves $59k, or 59 more payments
+		const loan = createLoan({
+			downPaymentInput: 380000,
+			downPaymentType: 'amount',
+			interestRate: 0,
+			term: 10,
+			lumpSumPrepayments: [{ amount: 60000, year: 1 }],
+		})
+		expect(loan.paymentSchedule[0].prepayment).toBe(60000)
+		expect(loan.paymentSchedule[0].balance).toBe(59000)
+		expect(loan.paymentSchedule).toHaveLength(60)
+		expect(loan.payoffYear).toBe(5)
+		expect(loan.interestSaved).toBe(0)
+	})
+
+	it('stops a recurring prepayment after its end year', () => {
+		const loan = createLoan({
+			recurringPrepayments: [{ amount: 500, startYear: 2, endYear: 3 }],
+		})
+		const prepaidByYear = [1, 2, 3, 4].map((year) =>
+			loan.paymentSchedule
+				.filter((payment) => payment.year === year)
+				.reduce((sum, payment) => sum + payment.prepayment, 0)
+		)
+		expect(prepaidByYear).toEqual([0, 6000, 6000, 0])
+	})
+})
+
+describe('refinances', () => {
+	const refinance = {
+		year: 3,
+		interestRate: 3,
+		term: 22,
+		penalty: 5000,
+		fees: 3000,
+	}
+
+	it('replaces the balance with a new loan at the new rate', () => {
+		const loan = createLoan({ refinances: [{ ...refinance, cashOut: 50000 }] })
+		const [applied] = loan.appliedRefinances
+		const balanceBefore = loan.yearlyData[1].endingBalance
+		expect(applied.newBalance).toBeCloseTo(balanceBefore + 50000, 6)
+		expect(applied.paymentAmount).toBeCloseTo(
+			getRegularPayment(applied.newBalance, 3, 'monthly', 'monthly', 22 * 12),
+			6
+		)
+		expect(applied.costs).toBe(8000)
+		expect(loan.yearlyData[2].refinanceCosts).toBe(8000)
+		expect(loan.yearlyData[2].refinanceCashOut).toBe(50000)
+		// Paid off at the end of the new 22-year amortization
+		expect(loan.payoffYear).toBe(24)
+	})
+
+	it('breaks even once the interest saved covers the penalty and fees', () => {
+		const loan = createLoan({ refinances: [refinance] })
+		const withoutRefinance = createLoan()
+		// About 2% of a $377k balance a year, so the $8,000 is covered in year 4
+		const savedInYear3 =
+			withoutRefinance.yearlyData[2].interestPaidYearly -
+			loan.yearlyData[2].interestPaidYearly
+		expect(savedInYear3).toBeLessThan(8000)
+		expect(loan.appliedRefinances[0].breakEvenYear).toBe(4)
+	})
+
+	it("doesn't count the interest on cash-out against the break-even", () => {
+		const loan = createLoan({
+			refinances: [{ ...refinance, cashOut: 150000 }],
+		})
+		expect(loan.appliedRefinances[0].breakEvenYear).toBe(4)
+	})
+
+	it('never breaks even at a higher rate', () => {
+		const loan = createLoan({ refinances: [{ ...refinance, interestRate: 6 }] })
+		expect(loan.appliedRefinances[0].breakEvenYear).toBeUndefined()
+	})
+
+	it('warns about a refinance after the loan is paid off', () => {
+		const loan = createLoan({ term: 2, refinances: [refinance] })
+		expect(loan.appliedRefinances).toEqual([])
+		expect(loan.warnings).toContain(
+			'The refinance in year 3 was skipped: the loan is paid off by then.'
+		)
+	})
+})
+
+describe('calculatePrepaymentPenalty', () => {
+	const threeMonthsInterest = {
+		...DEFAULT_SALE_SETTINGS,
+		prepaymentPenalty: 'three-months-interest' as const,
+	}
+	const ird = {
+		...DEFAULT_SALE_SETTINGS,
+		prepaymentPenalty: 'ird' as const,
+		irdComparisonRate: 3,
+	}
+
+	it("charges 3 months' interest on the balance", () => {
+		// $100k at 5%: 100000 * 5% * 3/12
+		expect(
+			calculatePrepaymentPenalty(createLoan(), 2, 100000, threeMonthsInterest)
+		).toBeCloseTo(1250, 2)
+	})
+
+	it('discounts the IRD over the rest of an assumed 5-year term', () => {
+		// 2% of $100k a year lost for 36 months, discounted monthly at 3%
+		expect(
+			calculatePrepaymentPenalty(createLoan(), 2, 100000, ird)
+		).toBeCloseTo(5731.08, 2)
+	})
+
+	it("charges 3 months' interest when it's more than the IRD", () => {
+		const sale = { ...ird, irdComparisonRate: 4.9 }
+		expect(
+			calculatePrepaymentPenalty(createLoan(), 4, 100000, sale)
+		).toBeCloseTo(1250, 2)
+	})
+
+	it('ends the IRD at the end of the current rate term', () => {
+		const loan = createLoan({
+			rateTerms: [{ years: 3 }, { years: 5, interestRate: 5 }],
+		})
+		// Year 3 ends the first term; year 4 has 4 years of the next one left
+		expect(calculatePrepaymentPenalty(loan, 3, 100000, ird)).toBe(0)
+		const r = 0.03 / 12
+		const expected = ((100000 * 0.02) / 12) * ((1 - Math.pow(1 + r, -48)) / r)
+		expect(calculatePrepaymentPenalty(loan, 4, 100000, ird)).toBeCloseTo(
+			expected,
+			2
+		)
+		// No penalty once a 5-year term without rate terms has matured
+		expect(calculatePrepaymentPenalty(createLoan(), 5, 100000, ird)).toBe(0)
+	})
+
+	it("charges a variable-rate loan 3 months' interest, even for ird", () => {
+		const loan = createLoan({ variableRate: { ratePath: [] } })
+		expect(calculatePrepaymentPenalty(loan, 2, 100000, ird)).toBeCloseTo(
+			1250,
+			2
+		)
+	})
+
+	it('nets the penalty out of the sale proceeds', () => {
+		const [processed] = calculateScenariosWithInvestment(
+			[createLoan({ sale: { year: 2, prepaymentPenalty: 'ird' } })],
+			{ initialInvestments: 200000, maxYears: 30, investmentReturn: 6 }
+		)
+		const data = processed.yearlyData.find((d) => d.year === 2)!
+		// Without a comparison rate there's no differential: 3 months' interest
+		expect(data.prepaymentPenalty).toBeCloseTo(
+			data.endingBalance * 0.05 * 0.25,
+			2
+		)
+		expect(data.saleProceeds).toBeCloseTo(
+			data.salePrice! -
+				data.sellingCosts! -
+				data.endingBalance -
+				data.prepaymentPenalty!,
+			6
+		)
+	})
+})
+
+// Names every object inherits, e.g. 'constructor', must not pass as options
+describe('option validation', () => {
+	it('rejects inherited names as land transfer tax tables', () => {
+		expect(validateClosingCosts({ provincialTax: 'constructor' })).toBeDefined()
+		expect(validateClosingCosts({ municipalTax: 'toString' })).toBeDefined()
+		expect(validateClosingCosts({ provincialTax: 'ontario' })).toBeUndefined()
+	})
+
+	// Helper function to validate a loan with some of its options changed
+	const validateLoan = (options: Partial<ScenarioConfig>) =>
+		validateScenarioInputs(
+			500000,
+			{
+				downPaymentInput: 20,
+				downPaymentType: 'percent',
+				interestRate: 5,
+				term: 25,
+				...options,
+			},
+			[],
+			'Loan'
+		)
+
+	it('rejects inherited names as compounding conventions', () => {
+		expect(
+			validateLoan({ compounding: 'toString' as CompoundingFrequency }).isValid
+		).toBe(false)
+		expect(validateLoan({ compounding: 'semi-annual' }).isValid).toBe(true)
+	})
+
+	it('rejects inherited names as payment frequencies', () => {
+		expect(
+			validateLoan({ paymentFrequency: 'constructor' as PaymentFrequency })
+				.isValid
+		).toBe(false)
+		expect(validateLoan({ paymentFrequency: 'bi-weekly' }).isValid).toBe(true)
+	})
+
+	it('rejects inherited names as investment account types', () => {
+		expect(
+			validateInvestmentTax({
+				accountType: 'toString' as InvestmentAccountType,
+			})
+		).toBeDefined()
+	})
+
+	it('rejects inherited names as mortgage insurance types', () => {
+		expect(
+			validateLoan({
+				downPaymentInput: 10,
+				mortgageInsurance: { type: 'constructor' as MortgageInsuranceType },
+			}).isValid
+		).toBe(false)
+	})
+
+	it('rejects inherited names as prepayment penalties', () => {
+		expect(
+			validateSaleSettings({
+				prepaymentPenalty: 'toString' as PrepaymentPenaltyType,
+			})
+		).toBeDefined()
+	})
+})
@@ -0,0 +1,2407 @@
+// Pure amortization and net-worth engine. Nothing in here touches React state
+// or mutates its arguments, so it can be reused outside the App component.
+import {
+	AmortizationOptions,
+	AmortizationResult,
+	ClosingCostBreakdown,
+	ClosingCosts,
+	ComparisonOptions,
+	CompoundingFrequency,
+	DownPaymentType,
+	InvestmentAccountType,
+	InvestmentAccounts,
+	InvestmentReturnChange,
+	InvestmentTaxSettings,
+	LandTransferTaxTable,
+	MortgageInsuranceConfig,
+	MortgageInsuranceResult,
+	MortgageInsuranceTier,
+	OwnershipCosts,
+	PaymentFrequency,
+	PaymentScheduleEntry,
+	PrepaymentPenaltyType,
+	RateChange,
+	RateTerm,
+	RefinanceEvent,
+	RefinanceResult,
+	RenewalEvent,
+	SaleSettings,
+	Scenario,
+	ScenarioConfig,
+	ScenarioValidationResult,
+	VariableRateConfig,
+	YearlyMetricKey,
+	YearlyPaymentData,
+} from './types'
+
+export const COMPOUNDING_PERIODS_PER_YEAR: Record<
+	CompoundingFrequency,
+	number
+> = {
+	monthly: 12,
+	'semi-annual': 2,
+	daily: 365,
+}
+
+export const PAYMENTS_PER_YEAR: Record<PaymentFrequency, number> = {
+	monthly: 12,
+	'semi-monthly': 24,
+	'bi-weekly': 26,
+	'accelerated-bi-weekly': 26,
+	weekly: 52,
+}
+
+export const PAYMENT_FREQUENCY_LABELS: Record<PaymentFrequency, string> = {
+	monthly: 'Monthly',
+	'semi-monthly': 'Semi-monthly',
+	'bi-weekly': 'Bi-weekly',
+	'accelerated-bi-weekly': 'Accelerated Bi-weekly',
+	weekly: 'Weekly',
+}
+
+// Convert a nominal annual rate (in %) compounded `compounding` times a year
+// into the equivalent effective rate per payment period
+export const getPeriodicRate = (
+	annualRate: number,
+	compounding: CompoundingFrequency,
+	paymentsPerYear: number
+): number => {
+	const compoundingPeriods = COMPOUNDING_PERIODS_PER_YEAR[compounding]
+	return (
+		Math.pow(
+			1 + annualRate / 100 / compoundingPeriods,
+			compoundingPeriods / paymentsPerYear
+		) - 1
+	)
+}
+
+// Helper function to calculate actual down payment
+export const getActualDownPayment = (
+	homePrice: number,
+	downPaymentInput: number,
+	downPaymentType: DownPaymentType
+): number => {
+	return downPaymentType === 'amount'
+		? downPaymentInput
+		: homePrice * (downPaymentInput / 100)
+}
+
+// Helper function to add whole months to an ISO date (YYYY-MM-DD), clamping
+// the day to the end of shorter months (e.g. Jan 31 + 1 month = Feb 28)
+export const addMonthsToIsoDate = (isoDate: string, months: number): string => {
+	const [year, month, day] = isoDate.split('-').map(Number)
+	const target = new Date(Date.UTC(year, month - 1 + months, 1))
+	const daysInTargetMonth = new Date(
+		Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+	).getUTCDate()
+	target.setUTCDate(Math.min(day, daysInTargetMonth))
+	return target.toISOString().slice(0, 10)
+}
+
+// Default first payment date: the first of next month
+export const getDefaultFirstPaymentDate = (today: Date = new Date()): string =>
+	new Date(Date.UTC(today.getFullYear(), today.getMonth() + 1, 1))
+		.toISOString()
+		.slice(0, 10)
+
+// Helper function to add days to an ISO date (YYYY-MM-DD)
+export const addDaysToIsoDate = (isoDate: string, days: number): string => {
+	const [year, month, day] = isoDate.split('-').map(Number)
+	return new Date(Date.UTC(year, month - 1, day + days))
+		.toISOString()
+		.slice(0, 10)
+}
+
+// Date of the payment at `paymentIndex` (0-based) for the given frequency
+export const getPaymentDate = (
+	firstPaymentDate: string,
+	paymentFrequency: PaymentFrequency,
+	paymentIndex: number
+): string => {
+	switch (paymentFrequency) {
+		case 'semi-monthly':
+			// Twice a month: on the first payment's day, then 15 days later
+			return addDaysToIsoDate(
+				addMonthsToIsoDate(firstPaymentDate, Math.floor(paymentIndex / 2)),
+				(paymentIndex % 2) * 15
+			)
+		case 'bi-weekly':
+		case 'accelerated-bi-weekly':
+			return addDaysToIsoDate(firstPaymentDate, paymentIndex * 14)
+		case 'weekly':
+			return addDaysToIsoDate(firstPaymentDate, paymentIndex * 7)
+		default:
+			return addMonthsToIsoDate(firstPaymentDate, paymentIndex)
+	}
+}
+
+// Level payment that pays off `balance` over `numberOfPayments` at `periodicRate`
+export const getLevelPayment = (
+	balance: number,
+	periodicRate: number,
+	numberOfPayments: number
+): number =>
+	periodicRate === 0
+		? balance / numberOfPayments
+		: (balance *
+				(periodicRate * Math.pow(1 + periodicRate, numberOfPayments))) /
+		  (Math.pow(1 + periodicRate, numberOfPayments) - 1)
+
+// Fixed-payment variable loans can extend past their amortization when rates
+// rise; stop projecting after this many years
+export const MAX_AMORTIZATION_YEARS = 100
+
+// Month (1-12 within the loan year) a payment falls in, and whether it's the
+// first payment of that month
+const getPaymentMonth = (
+	paymentIndexInYear: number,
+	paymentsPerYear: number
+): { month: number; isFirstPaymentOfMonth: boolean } => {
+	const month = Math.floor((paymentIndexInYear * 12) / paymentsPerYear) + 1
+	const isFirstPaymentOfMonth =
+		paymentIndexInYear === 0 ||
+		Math.floor(((paymentIndexInYear - 1) * 12) / paymentsPerYear) + 1 !== month
+	return { month, isFirstPaymentOfMonth }
+}
+
+// Helper function to find the rate a variable-rate path switches to at a
+// given payment, if it changes there
+const getRateChangeForPayment = (
+	options: AmortizationOptions,
+	paymentsPerYear: number,
+	year: number,
+	paymentIndexInYear: number
+): number | undefined => {
+	const variableRate = options.variableRate
+	if (!variableRate) return undefined
+	const { month, isFirstPaymentOfMonth } = getPaymentMonth(
+		paymentIndexInYear,
+		paymentsPerYear
+	)
+	if (!isFirstPaymentOfMonth) return undefined
+
+	const isChangeThisMonth = (change: RateChange) =>
+		change.year === year && (change.month ?? 1) === month
+	const rateChange = variableRate.ratePath?.find(isChangeThisMonth)
+	if (rateChange) return rateChange.rate
+	const primeChange = variableRate.primeRatePath?.find(isChangeThisMonth)
+	if (primeChange) {
+		return Math.max(0, primeChange.rate + (variableRate.spread ?? 0))
+	}
+	return undefined
+}
+
+// Helper function to total the extra principal scheduled for a given payment.
+// Recurring prepayments are monthly amounts, spread evenly across payments.
+const getPrepaymentForPayment = (
+	options: AmortizationOptions,
+	paymentsPerYear: number,
+	year: number,
+	paymentIndexInYear: number
+): number => {
+	const recurring = (options.recurringPrepayments ?? [])
+		.filter(
+			(prepayment) =>
+				year >= prepayment.startYear &&
+				(prepayment.endYear === undefined || year <= prepayment.endYear)
+		)
+		.reduce(
+			(sum, prepayment) => sum + (prepayment.amount * 12) / paymentsPerYear,
+			0
+		)
+	// A lump sum is made with the first payment falling in its month
+	const { month, isFirstPaymentOfMonth } = getPaymentMonth(
+		paymentIndexInYear,
+		paymentsPerYear
+	)
+	const lumpSums = isFirstPaymentOfMonth
+		? (options.lumpSumPrepayments ?? [])
+				.filter(
+					(prepayment) =>
+						prepayment.year === year && (prepayment.month ?? 1) === month
+				)
+				.reduce((sum, prepayment) => sum + prepayment.amount, 0)
+		: 0
+	return recurring + lumpSums
+}
+
+// Regular P&I payment that pays off `balance` over the remaining payments.
+// Accelerated bi-weekly pays half the equivalent monthly payment every two
+// weeks, which adds up to one extra monthly payment a year.
+export const getRegularPayment = (
+	balance: number,
+	annualRate: number,
+	compounding: CompoundingFrequency,
+	paymentFrequency: PaymentFrequency,
+	remainingPayments: number
+): number => {
+	if (paymentFrequency === 'accelerated-bi-weekly') {
+		const remainingMonths = Math.round(
+			(remainingPayments * 12) / PAYMENTS_PER_YEAR[paymentFrequency]
+		)
+		return (
+			getLevelPayment(
+				balance,
+				getPeriodicRate(annualRate, compounding, 12),
+				remainingMonths
+			) / 2
+		)
+	}
+	return getLevelPayment(
+		balance,
+		getPeriodicRate(
+			annualRate,
+			compounding,
+			PAYMENTS_PER_YEAR[paymentFrequency]
+		),
+		remainingPayments
+	)
+}
+
+// Helper function to lay the rate terms out over the amortization period.
+// The first term defaults to `annualRate`, later terms without their own rate
+// use `renewalRate`, and once the listed terms run out the last term length
+// keeps renewing at `renewalRate` until the loan is amortized.
+export const getRateTermSchedule = (
+	annualRate: number,
+	termYears: number,
+	rateTerms: RateTerm[] = [],
+	renewalRate: number = annualRate
+): { startYear: number; interestRate: number }[] => {
+	if (rateTerms.length === 0) {
+		return [{ startYear: 0, interestRate: annualRate }]
+	}
+
+	const schedule: { startYear: number; interestRate: number }[] = []
+	let startYear = 0
+	rateTerms.forEach((rateTerm, index) => {
+		if (startYear >= termYears) return
+		schedule.push({
+			startYear,
+			interestRate:
+				rateTerm.interestRate ?? (index === 0 ? annualRate : renewalRate),
+		})
+		startYear += rateTerm.years
+	})
+	const lastTermYears = rateTerms[rateTerms.length - 1].years
+	while (startYear < termYears) {
+		schedule.push({ startYear, interestRate: renewalRate })
+		startYear += lastTermYears
+	}
+	return schedule
+}
+
+export function calculateMortgageAmortization(
+	principal: number,
+	annualRate: number,
+	termYears: number,
+	options: AmortizationOptions
+): AmortizationResult | null {
+	const { firstPaymentDate } = options
+	const paymentFrequency = options.paymentFrequency ?? 'monthly'
+	// Basic validation
+	if (principal < 0 || annualRate < 0 || termYears <= 0) {
+		return null // Invalid input for negative values or zero term
+	}
+
+	// Handle 0 principal (e.g., 100% down payment). Interest is meaningless here.
+	if (principal === 0) {
+		// Loan is immediately paid off
+		const yearlyDataForZeroPrincipal: YearlyPaymentData[] = [
+			{
+				year: 1,
+				beginningBalance: 0,
+				interestPaidYearly: 0,
+				principalPaidYearly: 0,
+				endingBalance: 0,
+				totalPrincipalPaid: 0,
+				totalInterestPaid: 0,
+				annualCost: 0,
+			},
+		]
+		return {
+			yearlyData: yearlyDataForZeroPrincipal,
+			paymentSchedule: [],
+			paymentAmount: 0,
+			renewals: [],
+			appliedRefinances: [],
+			warnings: [],
+		}
+	}
+
+	const paymentsPerYear = PAYMENTS_PER_YEAR[paymentFrequency]
+	const compounding = options.compounding ?? 'monthly'
+	// A refinance replaces the loan, so these can change partway through
+	let numberOfPayments = Math.round(termYears * paymentsPerYear)
+	// With fixed payments on a variable rate the loan runs until it's paid off
+	let isFixedPaymentVariable =
+		options.variableRate !== undefined &&
+		options.variableRate.paymentMode === 'fixed'
+	let lastYear = isFixedPaymentVariable
+		? MAX_AMORTIZATION_YEARS
+		: Math.ceil(termYears)
+
+	// Payment number each rate term starts on, with its rate
+	const rateTermStarts = getRateTermSchedule(
+		annualRate,
+		termYears,
+		options.rateTerms,
+		options.renewalRate
+	).map((rateTerm) => ({
+		paymentNumber: Math.round(rateTerm.startYear * paymentsPerYear) + 1,
+		interestRate: rateTerm.interestRate,
+	}))
+
+	let currentRate = rateTermStarts[0].interestRate
+	let periodicRate = getPeriodicRate(currentRate, compounding, paymentsPerYear)
+	let paymentAmount = getRegularPayment(
+		principal,
+		currentRate,
+		compounding,
+		paymentFrequency,
+		numberOfPayments
+	)
+	const initialPaymentAmount = paymentAmount
+
+	if (!isFinite(paymentAmount)) {
+		return null // Calculation resulted in Infinity or NaN
+	}
+
+	let balance = principal
+	const yearlyData: YearlyPaymentData[] = []
+	const paymentSchedule: PaymentScheduleEntry[] = []
+	const renewals: RenewalEvent[] = []
+	const appliedRefinances: RefinanceResult[] = []
+	const warnings: string[] = []
+	let totalPrincipalPaid = 0
+	let totalInterestPaid = 0
+	let isNegativelyAmortizing = false
+	// The new loan has a fixed rate: no more renewals or variable rate changes
+	let isRefinanced = false
+
+	for (let year = 1; year <= lastYear; year++) {
+		const beginningBalanceYear = balance
+		let interestPaidYearly = 0
+		let principalPaidYearly = 0
+		let negativeAmortizationThisYear = false
+		let refinanceCashOut = 0
+		let refinanceCosts = 0
+
+		for (
+			let paymentIndexInYear = 0;
+			paymentIndexInYear < paymentsPerYear;
+			paymentIndexInYear++
+		) {
+			const paymentNumber =
+				(year - 1) * paymentsPerYear + paymentIndexInYear + 1
+			// Use a small threshold for floating point comparison
+			if (
+				(paymentNumber > numberOfPayments && !isFixedPaymentVariable) ||
+				balance <= 0.005
+			) {
+				break
+			}
+
+			const date = getPaymentDate(
+				firstPaymentDate,
+				paymentFrequency,
+				paymentNumber - 1
+			)
+
+			// Refinance: the balance plus any cash-out becomes a new loan
+			const refinance =
+				paymentIndexInYear === 0 && year > 1
+					? options.refinances?.find((event) => event.year === year)
+					: undefined
+			if (refinance) {
+				const cashOut = refinance.cashOut ?? 0
+				const costs = (refinance.penalty ?? 0) + (refinance.fees ?? 0)
+				balance += cashOut
+				refinanceCashOut += cashOut
+				refinanceCosts += costs
+				isRefinanced = true
+				isFixedPaymentVariable = false
+				numberOfPayments =
+					paymentNumber - 1 + Math.round(refinance.term * paymentsPerYear)
+				lastYear = year - 1 + Math.ceil(refinance.term)
+				currentRate = refinance.interestRate
+				periodicRate = getPeriodicRate(
+					currentRate,
+					compounding,
+					paymentsPerYear
+				)
+				paymentAmount = getRegularPayment(
+					balance,
+					currentRate,
+					compounding,
+					paymentFrequency,
+					numberOfPayments - paymentNumber + 1
+				)
+				appliedRefinances.push({
+					year,
+					date,
+					interestRate: currentRate,
+					paymentAmount,
+					newBalance: balance,
+					cashOut,
+					costs,
+				})
+			}
+
+			// Renewal: re-amortize the balance over what's left at the new rate
+			const renewal = isRefinanced
+				? undefined
+				: rateTermStarts.find(
+						(rateTerm) =>
+							rateTerm.paymentNumber === paymentNumber && paymentNumber > 1
+				  )
+			if (renewal) {
+				currentRate = renewal.interestRate
+				periodicRate = getPeriodicRate(
+					currentRate,
+					compounding,
+					paymentsPerYear
+				)
+				paymentAmount = getRegularPayment(
+					balance,
+					currentRate,
+					compounding,
+					paymentFrequency,
+					numberOfPayments - paymentNumber + 1
+				)
+				renewals.push({
+					year,
+					date,
+					interestRate: currentRate,
+					paymentAmount,
+				})
+			}
+
+			// Variable rate: floating payments re-amortize, fixed payments don't
+			const variableRateChange = isRefinanced
+				? undefined
+				: getRateChangeForPayment(
+						options,
+						paymentsPerYear,
+						year,
+						paymentIndexInYear
+				  )
+			if (variableRateChange !== undefined) {
+				currentRate = variableRateChange
+				periodicRate = getPeriodicRate(
+					currentRate,
+					compounding,
+					paymentsPerYear
+				)
+				if (!isFixedPaymentVariable) {
+					paymentAmount = getRegularPayment(
+						balance,
+						currentRate,
+						compounding,
+						paymentFrequency,
+						Math.max(1, numberOfPayments - paymentNumber + 1)
+					)
+				}
+			}
+
+			const interestForPayment = balance * periodicRate
+			// Ensure principal payment doesn't exceed remaining balance. On a
+			// fixed-payment variable this goes negative once the rate passes
+			// the trigger rate, and the unpaid interest is added to the balance.
+			const principalForPayment = Math.min(
+				balance,
+				paymentAmount - interestForPayment
+			)
+			const isNegativeAmortization = principalForPayment < 0
+			if (isNegativeAmortization && !isNegativelyAmortizing) {
+				warnings.push(
+					`From ${date} (year ${year}) the payment no longer covers the interest at ${currentRate}%, so the balance grows (negative amortization).`
+				)
+			}
+			isNegativelyAmortizing = isNegativeAmortization
+			negativeAmortizationThisYear ||= isNegativeAmortization
+			// Prepayments go straight to principal, capped at what's left owing
+			const prepaymentForPayment = Math.min(
+				Math.max(0, balance - principalForPayment),
+				getPrepaymentForPayment(
+					options,
+					paymentsPerYear,
+					year,
+					paymentIndexInYear
+				)
+			)
+
+			interestPaidYearly += interestForPayment
+			principalPaidYearly += principalForPayment + prepaymentForPayment
+			balance -= principalForPayment + prepaymentForPayment
+
+			// Ensure balance doesn't go significantly below zero
+			if (balance < 0.005) {
+				balance = 0
+			}
+
+			paymentSchedule.push({
+				paymentNumber: paymentNumber,
+				year: year,
+				date: date,
+				interestRate: currentRate,
+				payment: interestForPayment + principalForPayment,
+				interest: interestForPayment,
+				principal: principalForPayment,
+				prepayment: prepaymentForPayment,
+				balance: balance,
+				negativeAmortization: isNegativeAmortization || undefined,
+			})
+		}
+
+		totalPrincipalPaid += principalPaidYearly
+		totalInterestPaid += interestPaidYearly
+
+		yearlyData.push({
+			year: year,
+			beginningBalance: beginningBalanceYear,
+			interestPaidYearly: interestPaidYearly,
+			principalPaidYearly: principalPaidYearly,
+			endingBalance: balance,
+			totalPrincipalPaid: totalPrincipalPaid,
+			totalInterestPaid: totalInterestPaid,
+			annualCost: principalPaidYearly + interestPaidYearly,
+			interestRate: currentRate,
+			paymentAmount: paymentAmount,
+			negativeAmortization: negativeAmortizationThisYear || undefined,
+			refinanceCashOut: refinanceCashOut || undefined,
+			refinanceCosts: refinanceCosts || undefined,
+		})
+
+		if (balance <= 0) break // Stop if loan is fully paid
+	}
+
+	if (balance > 0 && isFixedPaymentVariable) {
+		warnings.push(
+			`The loan is still not paid off after ${MAX_AMORTIZATION_YEARS} years at the fixed payment.`
+		)
+	}
+	// A refinance after the final payment has no loan left to replace
+	const skippedRefinances = (options.refinances ?? []).filter(
+		(event) => !appliedRefinances.some((r) => r.year === event.year)
+	)
+	skippedRefinances.forEach((event) =>
+		warnings.push(
+			`The refinance in year ${event.year} was skipped: the loan is paid off by then.`
+		)
+	)
+
+	return {
+		yearlyData,
+		paymentSchedule,
+		paymentAmount: initialPaymentAmount,
+		renewals,
+		appliedRefinances,
+		warnings,
+	}
+}
+
+// Helper function to validate refinance events, returning an error message
+const validateRefinances = (
+	refinances: RefinanceEvent[] | undefined
+): string | undefined => {
+	if (!refinances) return undefined
+	if (
+		refinances.some(
+			(event) =>
+				!Number.isInteger(event.year) ||
+				event.year < 2 ||
+				!isFinite(event.interestRate) ||
+				event.interestRate < 0 ||
+				!isFinite(event.term) ||
+				event.term <= 0 ||
+				event.term > MAX_AMORTIZATION_YEARS ||
+				[event.cashOut, event.penalty, event.fees].some(
+					(amount) => amount !== undefined && (!isFinite(amount) || amount < 0)
+				)
+		)
+	) {
+		return `Refinances need a whole year of at least 2, a non-negative rate, an amortization between 0 and ${MAX_AMORTIZATION_YEARS} years, and non-negative cash-out, penalty and fees.`
+	}
+	const years = refinances.map((event) => event.year)
+	if (new Set(years).size !== years.length) {
+		return 'Only one refinance is allowed per year.'
+	}
+	return undefined
+}
+
+// Helper function to find when each refinance pays for itself: the first year
+// the interest saved since refinancing, vs keeping the loan as it was after
+// the earlier refinances, covers its penalty and fees. Keyed by refinance year.
+// Cash-out is new borrowing for something else (it's invested), so the interest
+// on it isn't counted against the refinance: only the change of rate and
+// amortization is.
+const findRefinanceBreakEvenYears = (
+	principal: number,
+	annualRate: number,
+	termYears: number,
+	options: AmortizationOptions
+): Map<number, number> => {
+	const refinances = [...(options.refinances ?? [])].sort(
+		(a, b) => a.year - b.year
+	)
+	// Helper function to find the yearly interest with the given refinances
+	const getInterestByYear = (applied: RefinanceEvent[]) =>
+		new Map(
+			(
+				calculateMortgageAmortization(principal, annualRate, termYears, {
+					...options,
+					refinances: applied,
+				})?.yearlyData ?? []
+			).map((data) => [data.year, data.interestPaidYearly])
+		)
+
+	const breakEvenYears = new Map<number, number>()
+	refinances.forEach((event, n) => {
+		const without = getInterestByYear(refinances.slice(0, n))
+		const withRefinance = getInterestByYear([
+			...refinances.slice(0, n),
+			{ ...event, cashOut: 0 },
+		])
+		const lastYear = Math.max(...without.keys(), ...withRefinance.keys())
+		const costs = (event.penalty ?? 0) + (event.fees ?? 0)
+		let interestSaved = 0
+		for (let year = event.year; year <= lastYear; year++) {
+			interestSaved += (without.get(year) ?? 0) - (withRefinance.get(year) ?? 0)
+			if (interestSaved >= costs) {
+				breakEvenYears.set(event.year, year)
+				return
+			}
+		}
+	})
+	return breakEvenYears
+}
+
+// Helper function to validate a variable-rate path, returning an error message
+const validateVariableRate = (
+	variableRate: VariableRateConfig | undefined
+): string | undefined => {
+	if (!variableRate) return undefined
+	const path = [
+		...(variableRate.ratePath ?? []),
+		...(variableRate.primeRatePath ?? []),
+	]
+	if (
+		path.some(
+			(change) =>
+				change.year < 1 ||
+				(change.month !== undefined && (change.month < 1 || change.month > 12))
+		)
+	) {
+		return 'Rate changes need a year of at least 1 and a month between 1 and 12.'
+	}
+	if ((variableRate.ratePath ?? []).some((change) => change.rate < 0)) {
+		return 'Rates in the rate path cannot be negative.'
+	}
+	if (
+		variableRate.paymentMode !== undefined &&
+		variableRate.paymentMode !== 'floating' &&
+		variableRate.paymentMode !== 'fixed'
+	) {
+		return 'Variable payment mode must be floating or fixed.'
+	}
+	return undefined
+}
+
+// Standard CMHC premiums (% of the loan). Loans above 95% LTV can't be insured.
+export const CMHC_PREMIUM_TIERS: MortgageInsuranceTier[] = [
+	{ maxLtv: 80, rate: 0 },
+	{ maxLtv: 85, rate: 2.8 },
+	{ maxLtv: 90, rate: 3.1 },
+	{ maxLtv: 95, rate: 4 },
+]
+
+// Typical US PMI rates (% of the original loan per year)
+export const PMI_RATE_TIERS: MortgageInsuranceTier[] = [
+	{ maxLtv: 80, rate: 0 },
+	{ maxLtv: 85, rate: 0.3 },
+	{ maxLtv: 90, rate: 0.5 },
+	{ maxLtv: 95, rate: 0.7 },
+	{ maxLtv: 97, rate: 0.9 },
+]
+
+export const DEFAULT_PMI_REMOVAL_LTV = 78
+
+export const MORTGAGE_INSURANCE_LABELS: Record<
+	MortgageInsuranceConfig['type'],
+	string
+> = {
+	none: 'None',
+	cmhc: 'CMHC (premium added to loan)',
+	pmi: 'PMI (monthly until 78% LTV)',
+}
+
+// Helper function to find the insurance rate for a loan-to-value (in %),
+// or undefined if no tier covers it
+export const getMortgageInsuranceRate = (
+	loanToValue: number,
+	tiers: MortgageInsuranceTier[]
+): number | undefined =>
+	[...tiers]
+		.sort((a, b) => a.maxLtv - b.maxLtv)
+		.find((tier) => loanToValue <= tier.maxLtv + 1e-9)?.rate
+
+// Helper function to validate mortgage insurance for a loan-to-value (in %),
+// returning an error message
+const validateMortgageInsurance = (
+	insurance: MortgageInsuranceConfig | undefined,
+	loanToValue: number
+): string | undefined => {
+	if (!insurance || insurance.type === 'none') return undefined
+	if (!Object.hasOwn(MORTGAGE_INSURANCE_LABELS, insurance.type)) {
+		return `Mortgage insurance type must be one of: ${Object.keys(
+			MORTGAGE_INSURANCE_LABELS
+		).join(', ')}.`
+	}
+	if (
+		insurance.tiers?.some(
+			(tier) =>
+				!isFinite(tier.maxLtv) ||
+				tier.maxLtv <= 0 ||
+				tier.maxLtv > 100 ||
+				!isFinite(tier.rate) ||
+				tier.rate < 0
+		)
+	) {
+		return 'Mortgage insurance tiers need a maxLtv between 0 and 100% and a non-negative rate.'
+	}
+	if (
+		insurance.removalLtv !== undefined &&
+		(!isFinite(insurance.removalLtv) ||
+			insurance.removalLtv < 0 ||
+			insurance.removalLtv > 100)
+	) {
+		return 'Mortgage insurance removal LTV must be between 0 and 100%.'
+	}
+	const tiers =
+		insurance.tiers ??
+		(insurance.type === 'cmhc' ? CMHC_PREMIUM_TIERS : PMI_RATE_TIERS)
+	if (getMortgageInsuranceRate(loanToValue, tiers) === undefined) {
+		return `No mortgage insurance tier covers a loan-to-value of ${loanToValue.toFixed(
+			2
+		)}%. Increase the down payment.`
+	}
+	return undefined
+}
+
+// Helper function to work out a scenario's mortgage insurance. Assumes the
+// inputs were validated.
+export const calculateMortgageInsurance = (
+	homePrice: number,
+	principal: number,
+	insurance: MortgageInsuranceConfig | undefined
+): MortgageInsuranceResult | undefined => {
+	if (!insurance || insurance.type === 'none' || homePrice <= 0) {
+		return undefined
+	}
+	const loanToValue = (principal / homePrice) * 100
+	const tiers =
+		insurance.tiers ??
+		(insurance.type === 'cmhc' ? CMHC_PREMIUM_TIERS : PMI_RATE_TIERS)
+	const rate = getMortgageInsuranceRate(loanToValue, tiers) ?? 0
+	if (rate === 0) return undefined
+	return {
+		type: insurance.type,
+		loanToValue,
+		rate,
+		premium: principal * (rate / 100),
+	}
+}
+
+// Helper function to add PMI premiums to an amortization. A premium is paid
+// with every payment made while the balance is above the removal threshold.
+const applyPmiToAmortization = (
+	yearlyData: YearlyPaymentData[],
+	paymentSchedule: PaymentScheduleEntry[],
+	principal: number,
+	annualPremium: number,
+	paymentsPerYear: number,
+	removalBalance: number
+): {
+	yearlyData: YearlyPaymentData[]
+	paymentSchedule: PaymentScheduleEntry[]
+	removalYear?: number
+} => {
+	let balanceBeforePayment = principal
+	let removalYear: number | undefined
+	const premiumsByYear = new Map<number, number>()
+	const scheduleWithPmi = paymentSchedule.map((payment) => {
+		const mortgageInsurance =
+			balanceBeforePayment > removalBalance + 1e-6
+				? annualPremium / paymentsPerYear
+				: 0
+		balanceBeforePayment = payment.balance
+		if (mortgageInsurance > 0) {
+			removalYear = payment.year
+			premiumsByYear.set(
+				payment.year,
+				(premiumsByYear.get(payment.year) ?? 0) + mortgageInsurance
+			)
+		}
+		return { ...payment, mortgageInsurance }
+	})
+	return {
+		yearlyData: yearlyData.map((data) => ({
+			...data,
+			mortgageInsuranceYearly: premiumsByYear.get(data.year) ?? 0,
+		})),
+		paymentSchedule: scheduleWithPmi,
+		removalYear,
+	}
+}
+
+// Helper function to validate scenario inputs. The scenario's own home price,
+// if any, takes precedence over the global one.
+export const validateScenarioInputs = (
+	globalHomePrice: number,
+	input: Omit<ScenarioConfig, 'name'>,
+	existingScenarioNames: string[],
+	newName?: string
+): ScenarioValidationResult => {
+	const { downPaymentInput, downPaymentType, interestRate, term } = input
+	const homePrice = input.homePrice ?? globalHomePrice
+	const scenarioName =
+		newName?.trim() || `Scenario ${existingScenarioNames.length + 1}`
+	if (newName && existingScenarioNames.includes(scenarioName)) {
+		return {
+			isValid: false,
+			message: `Scenario name "${scenarioName}" already exists. Please choose a unique name.`,
+		}
+	}
+
+	const investmentReturnError = validateInvestmentReturn(
+		input.investmentReturn,
+		input.investmentReturnPath
+	)
+	if (investmentReturnError) {
+		return { isValid: false, message: investmentReturnError }
+	}
+	const investmentTaxError = validateInvestmentTax(input.investmentTax)
+	if (investmentTaxError) {
+		return { isValid: false, message: investmentTaxError }
+	}
+
+	if (input.type === 'rent') {
+		const rentError = validateRentInputs(input)
+		if (rentError) {
+			return { isValid: false, message: rentError }
+		}
+		// Nothing is borrowed, and the whole down payment stays invested
+		return {
+			isValid: true,
+			message: '',
+			actualDownPayment: 0,
+			principal: 0,
+			scenarioName,
+		}
+	}
+	if (input.type !== undefined && input.type !== 'mortgage') {
+		return { isValid: false, message: `Unknown scenario type "${input.type}".` }
+	}
+	if (
+		input.homePrice !== undefined &&
+		(!isFinite(input.homePrice) || input.homePrice <= 0)
+	) {
+		return { isValid: false, message: 'Home price must be greater than 0.' }
+	}
+
+	const actualDownPayment = getActualDownPayment(
+		homePrice,
+		downPaymentInput,
+		downPaymentType
+	)
+
+	if (
+		downPaymentType === 'percent' &&
+		(downPaymentInput < 0 || downPaymentInput > 100)
+	) {
+		return {
+			isValid: false,
+			message: 'Down payment percentage must be between 0 and 100.',
+		}
+	}
+	if (actualDownPayment < 0) {
+		return { isValid: false, message: 'Down payment cannot be negative.' }
+	}
+	if (actualDownPayment > homePrice) {
+		return {
+			isValid: false,
+			message: 'Down payment cannot be greater than the home price.',
+		}
+	}
+
+	const principal = homePrice - actualDownPayment
+	if (principal === 0 && interestRate !== 0) {
+		return {
+			isValid: false,
+			message:
+				'If down payment covers the full home price (0 principal), the interest rate must be 0.',
+		}
+	}
+	if (interestRate < 0) {
+		return { isValid: false, message: 'Interest rate cannot be negative.' }
+	}
+	if (term <= 0) {
+		return { isValid: false, message: 'Term must be positive.' }
+	}
+	if (
+		input.paymentFrequency !== undefined &&
+		!Object.hasOwn(PAYMENTS_PER_YEAR, input.paymentFrequency)
+	) {
+		return {
+			isValid: false,
+			message: `Payment frequency must be one of: ${Object.keys(
+				PAYMENTS_PER_YEAR
+			).join(', ')}.`,
+		}
+	}
+	if (
+		input.compounding !== undefined &&
+		!Object.hasOwn(COMPOUNDING_PERIODS_PER_YEAR, input.compounding)
+	) {
+		return {
+			isValid: false,
+			message: 'Compounding must be one of: monthly, semi-annual, daily.',
+		}
+	}
+	if ((input.rateTerms ?? []).some((rateTerm) => rateTerm.years <= 0)) {
+		return { isValid: false, message: 'Rate terms must be positive.' }
+	}
+	if (
+		(input.rateTerms ?? []).some(
+			(rateTerm) =>
+				rateTerm.interestRate !== undefined && rateTerm.interestRate < 0
+		) ||
+		(input.renewalRate !== undefined && input.renewalRate < 0)
+	) {
+		return {
+			isValid: false,
+			message: 'Rate term and renewal rates cannot be negative.',
+		}
+	}
+	const variableRateError = validateVariableRate(input.variableRate)
+	if (variableRateError) {
+		return { isValid: false, message: variableRateError }
+	}
+	const ownershipCostsError = validateOwnershipCosts(input.ownershipCosts)
+	if (ownershipCostsError) {
+		return { isValid: false, message: ownershipCostsError }
+	}
+	const closingCostsError = validateClosingCosts(input.closingCosts)
+	if (closingCostsError) {
+		return { isValid: false, message: closingCostsError }
+	}
+	const saleError = validateSaleSettings(input.sale)
+	if (saleError) {
+		return { isValid: false, message: saleError }
+	}
+	const refinancesError = validateRefinances(input.refinances)
+	if (refinancesError) {
+		return { isValid: false, message: refinancesError }
+	}
+	const appreciationRateError = validateAppreciationRate(input.appreciationRate)
+	if (appreciationRateError) {
+		return { isValid: false, message: appreciationRateError }
+	}
+	if (
+		input.firstPaymentDate !== undefined &&
+		!/^\d{4}-\d{2}-\d{2}$/.test(input.firstPaymentDate)
+	) {
+		return {
+			isValid: false,
+			message: 'First payment date must be a date in YYYY-MM-DD format.',
+		}
+	}
+	const invalidRecurringPrepayment = (input.recurringPrepayments ?? []).find(
+		(prepayment) =>
+			prepayment.amount < 0 ||
+			prepayment.startYear < 1 ||
+			(prepayment.endYear !== undefined &&
+				prepayment.endYear < prepayment.startYear)
+	)
+	if (invalidRecurringPrepayment) {
+		return {
+			isValid: false,
+			message:
+				'Recurring prepayments need a non-negative amount, a start year of at least 1 and an end year no earlier than the start year.',
+		}
+	}
+	const invalidLumpSumPrepayment = (input.lumpSumPrepayments ?? []).find(
+		(prepayment) =>
+			prepayment.amount < 0 ||
+			prepayment.year < 1 ||
+			(prepayment.month !== undefined &&
+				(prepayment.month < 1 || prepayment.month > 12))
+	)
+	if (invalidLumpSumPrepayment) {
+		return {
+			isValid: false,
+			message:
+				'Lump sum prepayments need a non-negative amount, a year of at least 1 and a month between 1 and 12.',
+		}
+	}
+	const mortgageInsuranceError = validateMortgageInsurance(
+		input.mortgageInsurance,
+		homePrice > 0 ? (principal / homePrice) * 100 : 0
+	)
+	if (mortgageInsuranceError) {
+		return { isValid: false, message: mortgageInsuranceError }
+	}
+
+	return {
+		isValid: true,
+		message: '',
+		actualDownPayment,
+		principal,
+		scenarioName,
+	}
+}
+
+// Helper function to validate inputs and build a fully calculated scenario.
+// Returns an error message instead of a scenario when the inputs are unusable.
+export const createScenario = (
+	globalHomePrice: number,
+	input: Omit<ScenarioConfig, 'name'>,
+	existingScenarioNames: string[],
+	newName?: string
+): { scenario: Scenario; error?: undefined } | { error: string } => {
+	const homePrice = input.homePrice ?? globalHomePrice
+	const validation = validateScenarioInputs(
+		globalHomePrice,
+		input,
+		existingScenarioNames,
+		newName
+	)
+
+	if (
+		!validation.isValid ||
+		validation.principal === undefined ||
+		validation.actualDownPayment === undefined ||
+		validation.scenarioName === undefined
+	) {
+		return { error: validation.message }
+	}
+
+	const firstPaymentDate =
+		input.firstPaymentDate ?? getDefaultFirstPaymentDate()
+	const compounding = input.compounding ?? 'monthly'
+	const paymentFrequency = input.paymentFrequency ?? 'monthly'
+
+	if (input.type === 'rent') {
+		// No loan to amortize; yearly rent is filled in by the comparison
+		return {
+			scenario: {
+				...input,
+				name: validation.scenarioName,
+				downPaymentInput: 0,
+				downPaymentType: 'amount',
+				interestRate: 0,
+				term: 0,
+				homePrice,
+				hasOwnHomePrice: input.homePrice !== undefined,
+				downPayment: 0,
+				firstPaymentDate,
+				compounding,
+				paymentFrequency,
+				yearlyData: [],
+				paymentSchedule: [],
+				paymentAmount: 0,
+				renewals: [],
+				appliedRefinances: [],
+				warnings: [],
+				payoffYear: 0,
+				payoffDate: firstPaymentDate,
+				interestSaved: 0,
+			},
+		}
+	}
+	// A CMHC premium is borrowed along with the loan
+	const mortgageInsurance = calculateMortgageInsurance(
+		homePrice,
+		validation.principal,
+		input.mortgageInsurance
+	)
+	const amortizedPrincipal =
+		validation.principal +
+		(mortgageInsurance?.type === 'cmhc' ? mortgageInsurance.premium : 0)
+
+	const calculationResult = calculateMortgageAmortization(
+		amortizedPrincipal,
+		input.interestRate,
+		input.term,
+		{
+			firstPaymentDate,
+			compounding,
+			paymentFrequency,
+			rateTerms: input.rateTerms,
+			renewalRate: input.renewalRate,
+			variableRate: input.variableRate,
+			recurringPrepayments: input.recurringPrepayments,
+			lumpSumPrepayments: input.lumpSumPrepayments,
+			refinances: input.refinances,
+		}
+	)
+	// Same loan without prepayments, to measure the interest they save
+	const regularResult = calculateMortgageAmortization(
+		amortizedPrincipal,
+		input.interestRate,
+		input.term,
+		{
+			firstPaymentDate,
+			compounding,
+			paymentFrequency,
+			rateTerms: input.rateTerms,
+			renewalRate: input.renewalRate,
+			variableRate: input.variableRate,
+			refinances: input.refinances,
+		}
+	)
+
+	if (!calculationResult || !regularResult) {
+		return {
+			error:
+				'Could not calculate mortgage amortization. Please check input values.',
+		}
+	}
+
+	let { yearlyData, paymentSchedule } = calculationResult
+	if (mortgageInsurance?.type === 'pmi') {
+		const removalLtv =
+			input.mortgageInsurance?.removalLtv ?? DEFAULT_PMI_REMOVAL_LTV
+		const withPmi = applyPmiToAmortization(
+			yearlyData,
+			paymentSchedule,
+			amortizedPrincipal,
+			mortgageInsurance.premium,
+			PAYMENTS_PER_YEAR[paymentFrequency],
+			homePrice * (removalLtv / 100)
+		)
+		yearlyData = withPmi.yearlyData
+		paymentSchedule = withPmi.paymentSchedule
+		mortgageInsurance.removalYear = withPmi.removalYear
+	}
+	const breakEvenYears = findRefinanceBreakEvenYears(
+		amortizedPrincipal,
+		input.interestRate,
+		input.term,
+		{
+			firstPaymentDate,
+			compounding,
+			paymentFrequency,
+			rateTerms: input.rateTerms,
+			renewalRate: input.renewalRate,
+			variableRate: input.variableRate,
+			recurringPrepayments: input.recurringPrepayments,
+			lumpSumPrepayments: input.lumpSumPrepayments,
+			refinances: input.refinances,
+		}
+	)
+	const totalInterestPaid =
+		yearlyData[yearlyData.length - 1]?.totalInterestPaid ?? 0
+	const regularTotalInterestPaid =
+		regularResult.yearlyData[regularResult.yearlyData.length - 1]
+			?.totalInterestPaid ?? 0
+
+	return {
+		scenario: {
+			...input,
+			name: validation.scenarioName, // Use validated/generated name
+			homePrice,
+			hasOwnHomePrice: input.homePrice !== undefined,
+			downPayment: validation.actualDownPayment,
+			firstPaymentDate,
+			compounding,
+			paymentFrequency,
+			yearlyData,
+			paymentSchedule,
+			paymentAmount: calculationResult.paymentAmount,
+			renewals: calculationResult.renewals,
+			appliedRefinances: calculationResult.appliedRefinances.map(
+				(refinance) => ({
+					...refinance,
+					breakEvenYear: breakEvenYears.get(refinance.year),
+				})
+			),
+			warnings: calculationResult.warnings,
+			payoffYear: yearlyData[yearlyData.length - 1]?.year ?? 0,
+			payoffDate:
+				paymentSchedule[paymentSchedule.length - 1]?.date ?? firstPaymentDate,
+			interestSaved: Math.max(0, regularTotalInterestPaid - totalInterestPaid),
+			mortgageInsuranceDetails: mortgageInsurance,
+		},
+	}
+}
+
+// Helper function to create initial scenarios from config
+export const createInitialScenariosFromConfig = (
+	homePrice: number,
+	initialScenarioConfigs: ScenarioConfig[]
+): { scenarios: Scenario[]; errors: string[] } => {
+	const scenarios: Scenario[] = []
+	const errors: string[] = []
+
+	initialScenarioConfigs.forEach((config) => {
+		// Pass an empty array to bypass uniqueness check for initial load
+		const result = createScenario(homePrice, config, [], config.name)
+		if (result.error !== undefined) {
+			errors.push(
+				`Invalid configuration for scenario ${config.name}: ${result.error}. Skipping.`
+			)
+			return // Skip this scenario
+		}
+		scenarios.push(result.scenario)
+	})
+
+	return { scenarios, errors }
+}
+
+// Fields createScenario calculates, as opposed to the inputs it was given
+const CALCULATED_SCENARIO_FIELDS: (keyof Scenario)[] = [
+	'hasOwnHomePrice',
+	'downPayment',
+	'paymentAmount',
+	'renewals',
+	'appliedRefinances',
+	'warnings',
+	'payoffYear',
+	'payoffDate',
+	'interestSaved',
+	'mortgageInsuranceDetails',
+	'closingCostBreakdown',
+	'saleYear',
+	'yearlyData',
+	'paymentSchedule',
+]
+
+// Recover the inputs a scenario was created from, e.g. to save it. The home
+// price is only kept if the scenario set its own; otherwise it was the global
+// price, which is saved separately.
+export const getScenarioConfig = (scenario: Scenario): ScenarioConfig => {
+	const config: Partial<Scenario> = { ...scenario }
+	CALCULATED_SCENARIO_FIELDS.forEach((field) => delete config[field])
+	if (!scenario.hasOwnHomePrice) delete config.homePrice
+	return config as ScenarioConfig
+}
+
+// Helper function to recalculate a scenario at a new global home price. One
+// with its own price is returned unchanged, as is one the new price makes
+// invalid (e.g. a down payment above it), until the price is valid again.
+export const updateScenarioHomePrice = (
+	scenario: Scenario,
+	globalHomePrice: number
+): Scenario => {
+	if (scenario.hasOwnHomePrice || scenario.homePrice === globalHomePrice) {
+		return scenario
+	}
+	const result = createScenario(
+		globalHomePrice,
+		getScenarioConfig(scenario),
+		[],
+		scenario.name
+	)
+	return result.error === undefined ? result.scenario : scenario
+}
+
+export const DEFAULT_OWNERSHIP_COSTS: OwnershipCosts = {
+	propertyTaxRate: 0,
+	insurance: 0,
+	insuranceInflation: 2,
+	hoaFees: 0,
+	hoaFeesInflation: 2,
+	maintenanceRate: 0,
+}
+
+// Helper function to validate ownership costs, returning an error message
+export const validateOwnershipCosts = (
+	costs: Partial<OwnershipCosts> | undefined
+): string | undefined => {
+	if (!costs) return undefined
+	const { propertyTaxRate, insurance, hoaFees, maintenanceRate } = costs
+	if (
+		[propertyTaxRate, insurance, hoaFees, maintenanceRate].some(
+			(value) => value !== undefined && (!isFinite(value) || value < 0)
+		)
+	) {
+		return 'Ownership costs cannot be negative.'
+	}
+	const inflationRates = [costs.insuranceInflation, costs.hoaFeesInflation]
+	if (
+		inflationRates.some(
+			(value) => value !== undefined && (!isFinite(value) || value <= -100)
+		)
+	) {
+		return 'Ownership cost inflation rates must be greater than -100%.'
+	}
+	return undefined
+}
+
+// Helper function to calculate a year's costs of owning the home beyond the
+// mortgage. Property tax and maintenance are a % of the home's value at the
+// start of the year, so they rise with appreciation; insurance and HOA fees
+// grow at their own inflation rate from year 1.
+export const calculateOwnershipCostsForYear = (
+	homeValue: number,
+	costs: OwnershipCosts,
+	year: number
+): Pick<
+	YearlyPaymentData,
+	| 'propertyTaxYearly'
+	| 'insuranceYearly'
+	| 'hoaFeesYearly'
+	| 'maintenanceYearly'
+	| 'ownershipCostYearly'
+> => {
+	const inflate = (amount: number, inflationRate: number) =>
+		amount * Math.pow(1 + inflationRate / 100, year - 1)
+
+	const propertyTaxYearly = homeValue * (costs.propertyTaxRate / 100)
+	const insuranceYearly = inflate(costs.insurance, costs.insuranceInflation)
+	const hoaFeesYearly = inflate(costs.hoaFees * 12, costs.hoaFeesInflation)
+	const maintenanceYearly = homeValue * (costs.maintenanceRate / 100)
+
+	return {
+		propertyTaxYearly,
+		insuranceYearly,
+		hoaFeesYearly,
+		maintenanceYearly,
+		ownershipCostYearly:
+			propertyTaxYearly + insuranceYearly + hoaFeesYearly + maintenanceYearly,
+	}
+}
+
+// Provincial land transfer tax, with the maximum first-time buyer rebates
+export const PROVINCIAL_LAND_TRANSFER_TAX: Record<
+	string,
+	LandTransferTaxTable
+> = {
+	ontario: {
+		label: 'Ontario',
+		brackets: [
+			{ upTo: 55000, rate: 0.5 },
+			{ upTo: 250000, rate: 1 },
+			{ upTo: 400000, rate: 1.5 },
+			{ upTo: 2000000, rate: 2 },
+			{ rate: 2.5 },
+		],
+		firstTimeBuyerRebate: 4000,
+	},
+	'british-columbia': {
+		label: 'British Columbia',
+		brackets: [
+			{ upTo: 200000, rate: 1 },
+			{ upTo: 2000000, rate: 2 },
+			{ upTo: 3000000, rate: 3 },
+			{ rate: 5 },
+		],
+		// The partial exemption between $835k and $860k isn't modelled
+		firstTimeBuyerRebate: 8000,
+		firstTimeBuyerMaxPrice: 835000,
+	},
+}
+
+// Municipal land transfer tax, charged on top of the provincial tax
+export const MUNICIPAL_LAND_TRANSFER_TAX: Record<string, LandTransferTaxTable> =
+	{
+		toronto: {
+			label: 'Toronto',
+			brackets: [
+				{ upTo: 55000, rate: 0.5 },
+				{ upTo: 250000, rate: 1 },
+				{ upTo: 400000, rate: 1.5 },
+				{ upTo: 2000000, rate: 2 },
+				{ upTo: 3000000, rate: 2.5 },
+				{ upTo: 4000000, rate: 3.5 },
+				{ upTo: 5000000, rate: 4.5 },
+				{ upTo: 10000000, rate: 5.5 },
+				{ upTo: 20000000, rate: 6.5 },
+				{ rate: 7.5 },
+			],
+			firstTimeBuyerRebate: 4475,
+		},
+	}
+
+export const DEFAULT_CLOSING_COSTS: ClosingCosts = {
+	legalFees: 0,
+	inspectionFees: 0,
+	otherFees: 0,
+	provincialTax: 'none',
+	municipalTax: 'none',
+	firstTimeBuyer: false,
+}
+
+// Helper function to validate closing costs, returning an error message
+export const validateClosingCosts = (
+	costs: Partial<ClosingCosts> | undefined
+): string | undefined => {
+	if (!costs) return undefined
+	const { legalFees, inspectionFees, otherFees, provincialTax, municipalTax } =
+		costs
+	if (
+		[legalFees, inspectionFees, otherFees].some(
+			(value) => value !== undefined && (!isFinite(value) || value < 0)
+		)
+	) {
+		return 'Closing costs cannot be negative.'
+	}
+	if (
+		provincialTax !== undefined &&
+		provincialTax !== 'none' &&
+		!Object.hasOwn(PROVINCIAL_LAND_TRANSFER_TAX, provincialTax)
+	) {
+		return `Provincial land transfer tax must be one of: none, ${Object.keys(
+			PROVINCIAL_LAND_TRANSFER_TAX
+		).join(', ')}.`
+	}
+	if (
+		municipalTax !== undefined &&
+		municipalTax !== 'none' &&
+		!Object.hasOwn(MUNICIPAL_LAND_TRANSFER_TAX, municipalTax)
+	) {
+		return `Municipal land transfer tax must be one of: none, ${Object.keys(
+			MUNICIPAL_LAND_TRANSFER_TAX
+		).join(', ')}.`
+	}
+	return undefined
+}
+
+// Helper function to calculate marginal land transfer tax on a price, and the
+// first-time buyer rebate against it
+export const calculateLandTransferTax = (
+	price: number,
+	table: LandTransferTaxTable | undefined,
+	firstTimeBuyer: boolean
+): { tax: number; rebate: number } => {
+	if (!table) return { tax: 0, rebate: 0 }
+	let tax = 0
+	let bracketStart = 0
+	for (const bracket of table.brackets) {
+		const bracketEnd = bracket.upTo ?? Infinity
+		if (price > bracketStart) {
+			tax += (Math.min(price, bracketEnd) - bracketStart) * (bracket.rate / 100)
+		}
+		bracketStart = bracketEnd
+	}
+	const isRebateEligible =
+		firstTimeBuyer &&
+		(table.firstTimeBuyerMaxPrice === undefined ||
+			price <= table.firstTimeBuyerMaxPrice)
+	return {
+		tax,
+		rebate: isRebateEligible ? Math.min(tax, table.firstTimeBuyerRebate) : 0,
+	}
+}
+
+// Helper function to total the one-time costs of buying a home
+export const calculateClosingCosts = (
+	homePrice: number,
+	costs: ClosingCosts
+): ClosingCostBreakdown => {
+	const fees = costs.legalFees + costs.inspectionFees + costs.otherFees
+	const provincial = calculateLandTransferTax(
+		homePrice,
+		PROVINCIAL_LAND_TRANSFER_TAX[costs.provincialTax],
+		costs.firstTimeBuyer
+	)
+	const municipal = calculateLandTransferTax(
+		homePrice,
+		MUNICIPAL_LAND_TRANSFER_TAX[costs.municipalTax],
+		costs.firstTimeBuyer
+	)
+	const provincialTax = provincial.tax - provincial.rebate
+	const municipalTax = municipal.tax - municipal.rebate
+	return {
+		fees,
+		provincialTax,
+		municipalTax,
+		firstTimeBuyerRebate: provincial.rebate + municipal.rebate,
+		total: fees + provincialTax + municipalTax,
+	}
+}
+
+export const DEFAULT_SALE_SETTINGS: SaleSettings = {
+	year: 0,
+	commissionRate: 5,
+	closingCosts: 1500,
+	prepaymentPenalty: 'three-months-interest',
+}
+
+export const PREPAYMENT_PENALTY_LABELS: Record<PrepaymentPenaltyType, string> =
+	{
+		none: 'None',
+		'three-months-interest': "3 months' interest (variable)",
+		ird: "Greater of IRD and 3 months' interest (fixed)",
+	}
+
+// Helper function to validate a sale plan, returning an error message
+export const validateSaleSettings = (
+	sale: Partial<SaleSettings> | undefined
+): string | undefined => {
+	if (!sale) return undefined
+	const {
+		year,
+		commissionRate,
+		closingCosts,
+		prepaymentPenalty,
+		irdComparisonRate,
+	} = sale
+	if (year !== undefined && (!Number.isInteger(year) || year < 0)) {
+		return 'Sale year must be a whole number (0 to never sell).'
+	}
+	if (
+		commissionRate !== undefined &&
+		(!isFinite(commissionRate) || commissionRate < 0 || commissionRate > 100)
+	) {
+		return 'Realtor commission must be between 0 and 100%.'
+	}
+	if (
+		closingCosts !== undefined &&
+		(!isFinite(closingCosts) || closingCosts < 0)
+	) {
+		return 'Selling costs cannot be negative.'
+	}
+	if (
+		prepaymentPenalty !== undefined &&
+		!Object.hasOwn(PREPAYMENT_PENALTY_LABELS, prepaymentPenalty)
+	) {
+		return `Prepayment penalty must be one of: ${Object.keys(
+			PREPAYMENT_PENALTY_LABELS
+		).join(', ')}.`
+	}
+	if (
+		irdComparisonRate !== undefined &&
+		(!isFinite(irdComparisonRate) || irdComparisonRate < 0)
+	) {
+		return 'IRD comparison rate cannot be negative.'
+	}
+	return undefined
+}
+
+// Lenders set penalties by the current rate term, so a scenario without rate
+// terms is treated as renewing every 5 years, e.g. a 5-year fixed
+const DEFAULT_RATE_TERM_YEARS = 5
+
+// Helper function to find the last loan year of the rate term a year falls in
+const getRateTermEndYear = (scenario: Scenario, year: number): number => {
+	const refinance = scenario.appliedRefinances
+		.filter((r) => r.year <= year)
+		.pop()
+	// A refinance starts a new term, from the start of its year
+	if (refinance || !scenario.rateTerms?.length) {
+		const termStartYear = refinance?.year ?? 1
+		const termsStarted =
+			Math.floor((year - termStartYear) / DEFAULT_RATE_TERM_YEARS) + 1
+		return Math.min(
+			scenario.payoffYear,
+			termStartYear - 1 + termsStarted * DEFAULT_RATE_TERM_YEARS
+		)
+	}
+	// A renewal in year N ends the previous term at the end of year N - 1
+	const nextRenewal = scenario.renewals.find((r) => r.year > year)
+	return nextRenewal ? nextRenewal.year - 1 : scenario.payoffYear
+}
+
+// Helper function to calculate the penalty for paying off the balance at the
+// end of a year. There's none once the current rate term has matured.
+export const calculatePrepaymentPenalty = (
+	scenario: Scenario,
+	year: number,
+	balance: number,
+	sale: SaleSettings
+): number => {
+	if (sale.prepaymentPenalty === 'none' || balance <= 0) return 0
+	const remainingTermYears = getRateTermEndYear(scenario, year) - year
+	if (remainingTermYears <= 0) return 0
+
+	const lastPayment = scenario.paymentSchedule
+		.filter((payment) => payment.year === year)
+		.pop()
+	const contractRate = lastPayment?.interestRate ?? scenario.interestRate
+	const threeMonthsInterest = balance * (contractRate / 100) * (3 / 12)
+	// Variable-rate loans only ever owe 3 months' interest, until a refinance
+	// replaces them with a fixed rate
+	const isVariableRate =
+		scenario.variableRate !== undefined &&
+		!scenario.appliedRefinances.some((r) => r.year <= year)
+	if (sale.prepaymentPenalty === 'three-months-interest' || isVariableRate) {
+		return threeMonthsInterest
+	}
+
+	// IRD: the monthly interest the lender loses over the rest of the term,
+	// discounted to today at the comparison rate
+	const comparisonRate = sale.irdComparisonRate ?? contractRate
+	const monthlyLoss =
+		(balance * (Math.max(0, contractRate - comparisonRate) / 100)) / 12
+	const remainingMonths = remainingTermYears * 12
+	const monthlyDiscountRate = comparisonRate / 100 / 12
+	const interestRateDifferential =
+		monthlyDiscountRate > 0
+			? (monthlyLoss *
+					(1 - Math.pow(1 + monthlyDiscountRate, -remainingMonths))) /
+			  monthlyDiscountRate
+			: monthlyLoss * remainingMonths
+	return Math.max(threeMonthsInterest, interestRateDifferential)
+}
+
+// Helper function to work out what selling the home leaves to invest
+const calculateHomeSale = (
+	scenario: Scenario,
+	year: number,
+	salePrice: number,
+	balance: number,
+	sale: SaleSettings
+): Pick<
+	YearlyPaymentData,
+	'salePrice' | 'sellingCosts' | 'prepaymentPenalty' | 'saleProceeds'
+> => {
+	const sellingCosts =
+		salePrice * (sale.commissionRate / 100) + sale.closingCosts
+	const prepaymentPenalty = calculatePrepaymentPenalty(
+		scenario,
+		year,
+		balance,
+		sale
+	)
+	return {
+		salePrice,
+		sellingCosts,
+		prepaymentPenalty,
+		saleProceeds: salePrice - sellingCosts - balance - prepaymentPenalty,
+	}
+}
+
+// Helper function to validate a rent scenario's inputs, returning an error message
+const validateRentInputs = (
+	input: Omit<ScenarioConfig, 'name'>
+): string | undefined => {
+	const { monthlyRent, annualRentIncrease, rentersInsurance } = input
+	if (monthlyRent === undefined || !isFinite(monthlyRent) || monthlyRent <= 0) {
+		return 'Monthly rent must be greater than 0.'
+	}
+	if (
+		annualRentIncrease !== undefined &&
+		(!isFinite(annualRentIncrease) || annualRentIncrease <= -100)
+	) {
+		return 'Annual rent increase must be greater than -100%.'
+	}
+	if (
+		rentersInsurance !== undefined &&
+		(!isFinite(rentersInsurance) || rentersInsurance < 0)
+	) {
+		return "Renter's insurance cannot be negative."
+	}
+	return undefined
+}
+
+// Helper function to calculate a year's rent and renter's insurance, both
+// growing at the annual rent increase from year 1
+export const calculateRentCostsForYear = (
+	scenario: Pick<
+		ScenarioConfig,
+		'monthlyRent' | 'annualRentIncrease' | 'rentersInsurance'
+	>,
+	year: number
+): Pick<
+	YearlyPaymentData,
+	| 'rentYearly'
+	| 'propertyTaxYearly'
+	| 'insuranceYearly'
+	| 'hoaFeesYearly'
+	| 'maintenanceYearly'
+	| 'ownershipCostYearly'
+> => {
+	const growth = Math.pow(
+		1 + (scenario.annualRentIncrease ?? 0) / 100,
+		year - 1
+	)
+	const insuranceYearly = (scenario.rentersInsurance ?? 0) * growth
+	return {
+		rentYearly: (scenario.monthlyRent ?? 0) * 12 * growth,
+		propertyTaxYearly: 0,
+		insuranceYearly,
+		hoaFeesYearly: 0,
+		maintenanceYearly: 0,
+		ownershipCostYearly: insuranceYearly,
+	}
+}
+
+export const DEFAULT_INVESTMENT_RETURN = 7 // % per year
+
+// Helper function to validate an investment return and its year-by-year path,
+// returning an error message
+export const validateInvestmentReturn = (
+	investmentReturn: number | undefined,
+	investmentReturnPath: InvestmentReturnChange[] | undefined
+): string | undefined => {
+	if (
+		investmentReturn !== undefined &&
+		(!isFinite(investmentReturn) || investmentReturn <= -100)
+	) {
+		return 'Investment return must be greater than -100%.'
+	}
+	if (
+		(investmentReturnPath ?? []).some(
+			(change) => !Number.isInteger(change.year) || change.year < 1
+		)
+	) {
+		return 'Investment return changes need a whole year of at least 1.'
+	}
+	if (
+		(investmentReturnPath ?? []).some(
+			(change) => !isFinite(change.rate) || change.rate <= -100
+		)
+	) {
+		return 'Returns in the investment return path must be greater than -100%.'
+	}
+	return undefined
+}
+
+// Helper function to find a year's investment return (as a decimal): the
+// latest change in the path at or before that year, else the flat return
+export const getInvestmentReturnForYear = (
+	investmentReturn: number,
+	investmentReturnPath: InvestmentReturnChange[] | undefined,
+	year: number
+): number => {
+	const change = (investmentReturnPath ?? [])
+		.filter((c) => c.year <= year)
+		.reduce<InvestmentReturnChange | undefined>(
+			(latest, c) => (!latest || c.year >= latest.year ? c : latest),
+			undefined
+		)
+	return (change?.rate ?? investmentReturn) / 100
+}
+
+// Helper function to validate a home appreciation rate (% per year)
+export const validateAppreciationRate = (
+	appreciationRate: number | undefined
+): string | undefined => {
+	if (appreciationRate === undefined) return undefined
+	if (!isFinite(appreciationRate) || appreciationRate <= -100) {
+		return 'Home appreciation rate must be greater than -100%.'
+	}
+	return undefined
+}
+
+// Helper function to calculate the home's market value at the end of a year
+export const calculateHomeValueForYear = (
+	homePrice: number,
+	appreciationRate: number,
+	year: number
+): number => homePrice * Math.pow(1 + appreciationRate / 100, year)
+
+export const DEFAULT_INVESTMENT_TAX: InvestmentTaxSettings = {
+	accountType: 'taxable',
+	contributionRoom: 0,
+	annualContributionRoom: 0,
+	withdrawalTaxRate: 0,
+	capitalGainsTaxRate: 0,
+	dividendYield: 0,
+	dividendTaxRate: 0,
+}
+
+export const INVESTMENT_ACCOUNT_LABELS: Record<InvestmentAccountType, string> =
+	{
+		taxable: 'Taxable (non-registered)',
+		tfsa: 'TFSA',
+		'roth-ira': 'Roth IRA',
+		rrsp: 'RRSP',
+		'401k': '401(k)',
+		ira: 'Traditional IRA',
+	}
+
+// RRSP, 401(k) and traditional IRA defer tax until withdrawal
+export const isTaxDeferredAccount = (accountType: InvestmentAccountType) =>
+	accountType === 'rrsp' || accountType === '401k' || accountType === 'ira'
+
+// Helper function to validate investment account and tax settings, returning an error message
+export const validateInvestmentTax = (
+	settings: Partial<InvestmentTaxSettings> | undefined
+): string | undefined => {
+	if (!settings) return undefined
+	if (
+		settings.accountType !== undefined &&
+		!Object.hasOwn(INVESTMENT_ACCOUNT_LABELS, settings.accountType)
+	) {
+		return `Unknown investment account type "${settings.accountType}".`
+	}
+	const { contributionRoom, annualContributionRoom, dividendYield } = settings
+	if (
+		[contributionRoom, annualContributionRoom, dividendYield].some(
+			(value) => value !== undefined && (!isFinite(value) || value < 0)
+		)
+	) {
+		return 'Contribution room and dividend yield cannot be negative.'
+	}
+	const { capitalGainsTaxRate, dividendTaxRate, withdrawalTaxRate } = settings
+	if (
+		[capitalGainsTaxRate, dividendTaxRate].some(
+			(value) =>
+				value !== undefined && (!isFinite(value) || value < 0 || value > 100)
+		) ||
+		(withdrawalTaxRate !== undefined &&
+			(!isFinite(withdrawalTaxRate) ||
+				withdrawalTaxRate < 0 ||
+				withdrawalTaxRate >= 100))
+	) {
+		return 'Investment tax rates must be between 0 and 100%, and the withdrawal tax rate below 100%.'
+	}
+	return undefined
+}
+
+// Helper function to add savings to the accounts: the sheltered account up
+// to its room, the rest to the taxable account. Tax-deferred contributions
+// are deductible; the refund (at the withdrawal tax rate) is assumed to be
+// contributed too, so $1 saved buys $1 / (1 - rate) of the account.
+const contributeToInvestmentAccounts = (
+	accounts: InvestmentAccounts,
+	amount: number,
+	settings: InvestmentTaxSettings
+): InvestmentAccounts => {
+	if (settings.accountType === 'taxable' || amount <= 0) {
+		return {
+			...accounts,
+			taxable: accounts.taxable + amount,
+			taxableCostBasis: accounts.taxableCostBasis + amount,
+		}
+	}
+	const grossUp = isTaxDeferredAccount(settings.accountType)
+		? 1 / (1 - settings.withdrawalTaxRate / 100)
+		: 1
+	const shelteredAmount = Math.min(amount, accounts.contributionRoom / grossUp)
+	const remainingAmount = amount - shelteredAmount
+	return {
+		sheltered: accounts.sheltered + shelteredAmount * grossUp,
+		taxable: accounts.taxable + remainingAmount,
+		taxableCostBasis: accounts.taxableCostBasis + remainingAmount,
+		contributionRoom: Math.max(
+			0,
+			accounts.contributionRoom - shelteredAmount * grossUp
+		),
+	}
+}
+
+// Open the accounts with the savings invested at the start
+export const openInvestmentAccounts = (
+	initialInvestmentValue: number,
+	settings: InvestmentTaxSettings
+): InvestmentAccounts =>
+	contributeToInvestmentAccounts(
+		{
+			sheltered: 0,
+			taxable: 0,
+			taxableCostBasis: 0,
+			contributionRoom: settings.contributionRoom,
+		},
+		initialInvestmentValue,
+		settings
+	)
+
+// Helper function to calculate the tax due if every account were sold today
+export const calculateLiquidationTax = (
+	accounts: InvestmentAccounts,
+	settings: InvestmentTaxSettings
+): number => {
+	const shelteredTax = isTaxDeferredAccount(settings.accountType)
+		? accounts.sheltered * (settings.withdrawalTaxRate / 100)
+		: 0
+	const capitalGain = Math.max(0, accounts.taxable - accounts.taxableCostBasis)
+	return shelteredTax + capitalGain * (settings.capitalGainsTaxRate / 100)
+}
+
+// Helper function to calculate yearly updates for a single scenario
+export const calculateYearlyScenarioUpdate = (
+	scenario: Scenario,
+	year: number,
+	maxAnnualCost: number,
+	previousAccounts: InvestmentAccounts,
+	initialInvestmentValue: number,
+	investmentRate: number,
+	taxSettings: InvestmentTaxSettings
+): Partial<YearlyPaymentData> => {
+	const dataForYear = scenario.yearlyData.find((d) => d.year === year)
+	const dataForPreviousYear = scenario.yearlyData.find(
+		(d) => d.year === year - 1
+	)
+	const yearlyProfit =
+		(previousAccounts.sheltered + previousAccounts.taxable) * investmentRate
+	// Sold at the end of saleYear: no home from then on, no housing costs after
+	const saleYear = scenario.saleYear ?? Infinity
+
+	// Grow last year's balances. Taxable dividends are taxed as they're paid
+	// and the rest reinvested, adding to the cost basis.
+	const dividends = Math.max(
+		0,
+		previousAccounts.taxable * (taxSettings.dividendYield / 100)
+	)
+	const investmentTaxYearly = dividends * (taxSettings.dividendTaxRate / 100)
+	const grownAccounts: InvestmentAccounts = {
+		sheltered: previousAccounts.sheltered * (1 + investmentRate),
+		taxable:
+			previousAccounts.taxable * (1 + investmentRate) - investmentTaxYearly,
+		taxableCostBasis:
+			previousAccounts.taxableCostBasis + dividends - investmentTaxYearly,
+		contributionRoom:
+			previousAccounts.contributionRoom +
+			(year > 1 ? taxSettings.annualContributionRoom : 0),
+	}
+
+	// Every scenario invests what it saves vs the most expensive one this
+	// year, including after its mortgage is paid off. Once the home is sold
+	// there's no housing cost left to compare, so nothing more is saved.
+	const investmentAmount =
+		year > saleYear ? 0 : maxAnnualCost - (dataForYear?.annualCost ?? 0)
+	const accounts = contributeToInvestmentAccounts(
+		grownAccounts,
+		investmentAmount +
+			(dataForYear?.saleProceeds ?? 0) +
+			(dataForYear?.refinanceCashOut ?? 0) -
+			(dataForYear?.refinanceCosts ?? 0),
+		taxSettings
+	)
+	const currentCumulativeValue = accounts.sheltered + accounts.taxable
+	// Net worth counts investments after the tax due on selling them
+	const liquidationTax = calculateLiquidationTax(accounts, taxSettings)
+	const afterTaxInvestmentValue = currentCumulativeValue - liquidationTax
+	// Equity is what the home would fetch at market value less what's still owed
+	const homeValue = dataForYear?.homeValue ?? scenario.homePrice
+	const homeEquity =
+		year >= saleYear ? 0 : homeValue - (dataForYear?.endingBalance ?? 0)
+	const totalNetWorth = homeEquity + afterTaxInvestmentValue
+
+	// Calculate Year-over-Year Change ($). Year 1 starts from the savings
+	// before buying, so closing costs show up as a loss.
+	const prevNetWorth =
+		year === 1
+			? scenario.downPayment +
+			  initialInvestmentValue +
+			  (scenario.closingCostBreakdown?.total ?? 0)
+			: dataForPreviousYear?.totalNetWorth ?? 0
+	const netWorthDifference = totalNetWorth - prevNetWorth
+
+	return {
+		homeEquity,
+		investmentDifference: investmentAmount,
+		cumulativeInvestmentValue: currentCumulativeValue,
+		investmentProfitYearly: yearlyProfit,
+		shelteredInvestmentValue: accounts.sheltered,
+		taxableInvestmentValue: accounts.taxable,
+		taxableCostBasis: accounts.taxableCostBasis,
+		contributionRoom: accounts.contributionRoom,
+		investmentTaxYearly,
+		liquidationTax,
+		afterTaxInvestmentValue,
+		totalNetWorth: totalNetWorth,
+		netWorthDifference: isFinite(netWorthDifference) ? netWorthDifference : 0,
+	}
+}
+
+// Helper function to merge a year's update into that year's data, creating a
+// placeholder row when the mortgage has already ended. Returns a new object.
+export const ensureYearlyDataExists = (
+	dataForYear: YearlyPaymentData | undefined,
+	year: number,
+	calculatedUpdate: Partial<YearlyPaymentData>
+): YearlyPaymentData => {
+	if (dataForYear) {
+		return { ...dataForYear, ...calculatedUpdate }
+	}
+	return {
+		year: year,
+		beginningBalance: 0,
+		interestPaidYearly: 0,
+		principalPaidYearly: 0,
+		endingBalance: 0,
+		annualCost: 0,
+		totalPrincipalPaid: 0,
+		totalInterestPaid: 0,
+		// Populate from calculated update
+		...calculatedUpdate,
+	}
+}
+
+// Helper function to calculate a scenario's performance vs the best net worth for the year
+export const calculatePerformancePercentage = (
+	totalNetWorth: number | undefined,
+	maxNetWorthThisYear: number
+): number => {
+	if (!isFinite(maxNetWorthThisYear) || totalNetWorth === undefined) {
+		return 0 // Default if net worth is missing
+	}
+	const denominator = Math.abs(maxNetWorthThisYear)
+	const performance =
+		denominator === 0
+			? totalNetWorth === 0
+				? 0
+				: Infinity // Max is 0 but current isn't
+			: ((totalNetWorth - maxNetWorthThisYear) / denominator) * 100
+	return isFinite(performance)
+		? performance
+		: performance > 0
+		? 100 // Cap positive infinity
+		: -100 // Cap negative infinity
+}
+
+// Run the year-by-year "invest the difference" comparison across scenarios.
+// Returns new scenarios with ownership costs, investment and net worth figures
+// filled in for every year up to maxYears; the input scenarios are left untouched.
+export const calculateScenariosWithInvestment = (
+	scenarios: Scenario[],
+	options: ComparisonOptions
+): Scenario[] => {
+	const { initialInvestments, maxYears } = options
+	if (scenarios.length < 1) return []
+
+	// Buyers pay closing costs up front, out of their initial investments
+	// Sales beyond the horizon never happen
+	const saleSettings = scenarios.map(
+		(scenario): SaleSettings => ({
+			...DEFAULT_SALE_SETTINGS,
+			...options.sale,
+			...scenario.sale,
+		})
+	)
+	const processedScenarios: Scenario[] = scenarios.map((scenario, index) => ({
+		...scenario,
+		saleYear:
+			scenario.type !== 'rent' &&
+			saleSettings[index].year >= 1 &&
+			saleSettings[index].year <= maxYears
+				? saleSettings[index].year
+				: undefined,
+		closingCostBreakdown:
+			scenario.type === 'rent'
+				? undefined
+				: calculateClosingCosts(scenario.homePrice, {
+						...DEFAULT_CLOSING_COSTS,
+						...options.closingCosts,
+						...scenario.closingCosts,
+				  }),
+		// Years past the horizon, e.g. of a loan never paid off, aren't compared
+		yearlyData: scenario.yearlyData.filter((data) => data.year <= maxYears),
+	}))
+
+	const initialInvestmentValues = processedScenarios.map((scenario) =>
+		Math.max(
+			0,
+			initialInvestments -
+				scenario.downPayment -
+				(scenario.closingCostBreakdown?.total ?? 0)
+		)
+	)
+	const investmentTaxSettings = processedScenarios.map(
+		(scenario): InvestmentTaxSettings => ({
+			...DEFAULT_INVESTMENT_TAX,
+			...options.investmentTax,
+			...scenario.investmentTax,
+		})
+	)
+	const currentAccounts = initialInvestmentValues.map((value, index) =>
+		openInvestmentAccounts(value, investmentTaxSettings[index])
+	)
+
+	// Helper to replace (or add) a scenario's data for a year
+	const updateYearlyData = (
+		scenario: Scenario,
+		year: number,
+		calculatedUpdate: Partial<YearlyPaymentData>
+	): YearlyPaymentData => {
+		const dataIndex = scenario.yearlyData.findIndex((d) => d.year === year)
+		const updatedDataForYear = ensureYearlyDataExists(
+			scenario.yearlyData[dataIndex],
+			year,
+			calculatedUpdate
+		)
+		if (dataIndex === -1) {
+			scenario.yearlyData.push(updatedDataForYear)
+		} else {
+			scenario.yearlyData[dataIndex] = updatedDataForYear
+		}
+		return updatedDataForYear
+	}
+
+	for (let year = 1; year <= maxYears; year++) {
+		// --- Step 1: Annual cost of each scenario (mortgage + ownership, or rent), home value and the max cost ---
+		let maxAnnualCost = 0
+		processedScenarios.forEach((scenario, index) => {
+			const ownershipCosts: OwnershipCosts = {
+				...DEFAULT_OWNERSHIP_COSTS,
+				...options.ownershipCosts,
+				...scenario.ownershipCosts,
+			}
+			const dataForYear = scenario.yearlyData.find((d) => d.year === year)
+			// The loan ends when it's paid off or the home is sold
+			const loanEndYear = Math.min(
+				scenario.payoffYear,
+				scenario.saleYear ?? Infinity
+			)
+			// Carry the loan totals over once the mortgage has ended
+			const lastData = scenario.yearlyData.find(
+				(d) => d.year === Math.min(year, loanEndYear)
+			)
+			const appreciationRate =
+				scenario.appreciationRate ?? options.appreciationRate ?? 0
+			// Renters pay rent instead, and own no home
+			const isRent = scenario.type === 'rent'
+			const hasSold =
+				scenario.saleYear !== undefined && year > scenario.saleYear
+			const costsForYear: Partial<YearlyPaymentData> = isRent
+				? calculateRentCostsForYear(scenario, year)
+				: hasSold
+				? // Nothing left to own, or owe
+				  {
+						beginningBalance: 0,
+						principalPaidYearly: 0,
+						interestPaidYearly: 0,
+						mortgageInsuranceYearly: 0,
+						endingBalance: 0,
+						refinanceCashOut: undefined,
+						refinanceCosts: undefined,
+				  }
+				: calculateOwnershipCostsForYear(
+						calculateHomeValueForYear(
+							scenario.homePrice,
+							appreciationRate,
+							year - 1
+						),
+						ownershipCosts,
+						year
+				  )
+			const mortgageCost =
+				dataForYear && loanEndYear >= year
+					? dataForYear.principalPaidYearly +
+					  dataForYear.interestPaidYearly +
+					  (dataForYear.mortgageInsuranceYearly ?? 0)
+					: 0
+			const homeValue =
+				isRent || hasSold
+					? 0
+					: calculateHomeValueForYear(
+							scenario.homePrice,
+							appreciationRate,
+							year
+					  )
+			// Sold at market value at the end of the year, paying off the balance
+			const saleForYear =
+				year === scenario.saleYear
+					? calculateHomeSale(
+							scenario,
+							year,
+							homeValue,
+							year <= scenario.payoffYear ? dataForYear?.endingBalance ?? 0 : 0,
+							saleSettings[index]
+					  )
+					: {}
+			const { annualCost } = updateYearlyData(scenario, year, {
+				...costsForYear,
+				...saleForYear,
+				homeValue,
+				annualCost:
+					mortgageCost +
+					(costsForYear.ownershipCostYearly ?? 0) +
+					(costsForYear.rentYearly ?? 0),
+				totalPrincipalPaid: lastData?.totalPrincipalPaid ?? 0,
+				totalInterestPaid: lastData?.totalInterestPaid ?? 0,
+			})
+			maxAnnualCost = Math.max(maxAnnualCost, annualCost)
+		})
+
+		let maxNetWorthThisYear = -Infinity
+
+		// --- Step 2: Calculate Investment, Net Worth for each scenario ---
+		processedScenarios.forEach((scenario, index) => {
+			// A scenario with its own return settings ignores the global ones
+			const hasOwnReturn =
+				scenario.investmentReturn !== undefined ||
+				scenario.investmentReturnPath !== undefined
+			const investmentRate = hasOwnReturn
+				? getInvestmentReturnForYear(
+						scenario.investmentReturn ?? options.investmentReturn,
+						scenario.investmentReturnPath,
+						year
+				  )
+				: getInvestmentReturnForYear(
+						options.investmentReturn,
+						options.investmentReturnPath,
+						year
+				  )
+			const calculatedUpdate = calculateYearlyScenarioUpdate(
+				scenario,
+				year,
+				maxAnnualCost,
+				currentAccounts[index],
+				initialInvestmentValues[index],
+				investmentRate,
+				investmentTaxSettings[index]
+			)
+			const updatedDataForYear = updateYearlyData(
+				scenario,
+				year,
+				calculatedUpdate
+			)
+
+			// Carry the account balances into the next iteration
+			currentAccounts[index] = {
+				sheltered: updatedDataForYear.shelteredInvestmentValue ?? 0,
+				taxable: updatedDataForYear.taxableInvestmentValue ?? 0,
+				taxableCostBasis: updatedDataForYear.taxableCostBasis ?? 0,
+				contributionRoom: updatedDataForYear.contributionRoom ?? 0,
+			}
+
+			// Track max net worth for performance calculation
+			if (updatedDataForYear.totalNetWorth !== undefined) {
+				maxNetWorthThisYear = Math.max(
+					maxNetWorthThisYear,
+					updatedDataForYear.totalNetWorth
+				)
+			}
+		})
+
+		// --- Step 3: Calculate Performance Percentage ---
+		processedScenarios.forEach((scenario) => {
+			const dataForYear = scenario.yearlyData.find((d) => d.year === year)
+			updateYearlyData(scenario, year, {
+				performancePercentage: calculatePerformancePercentage(
+					dataForYear?.totalNetWorth,
+					maxNetWorthThisYear
+				),
+			})
+		})
+	}
+
+	return processedScenarios
+}
+
+export const DEFAULT_INFLATION_RATE = 2 // % per year
+
+// Helper function to validate a general inflation rate (% per year)
+export const validateInflationRate = (
+	inflationRate: number | undefined
+): string | undefined => {
+	if (inflationRate === undefined) return undefined
+	if (!isFinite(inflationRate) || inflationRate <= -100) {
+		return 'Inflation rate must be greater than -100%.'
+	}
+	return undefined
+}
+
+// What a dollar at the end of `years` years is worth in today's dollars
+export const getRealDollarFactor = (inflationRate: number, years: number) =>
+	1 / Math.pow(1 + inflationRate / 100, years)
+
+// Dollar amounts in a year's data. Rates, percentages and netWorthDifference
+// (recomputed from the converted net worth) are left out.
+const YEARLY_DOLLAR_FIELDS: YearlyMetricKey[] = [
+	'beginningBalance',
+	'interestPaidYearly',
+	'principalPaidYearly',
+	'endingBalance',
+	'totalPrincipalPaid',
+	'totalInterestPaid',
+	'annualCost',
+	'paymentAmount',
+	'mortgageInsuranceYearly',
+	'refinanceCashOut',
+	'refinanceCosts',
+	'rentYearly',
+	'propertyTaxYearly',
+	'insuranceYearly',
+	'hoaFeesYearly',
+	'maintenanceYearly',
+	'ownershipCostYearly',
+	'homeValue',
+	'homeEquity',
+	'salePrice',
+	'sellingCosts',
+	'prepaymentPenalty',
+	'saleProceeds',
+	'investmentDifference',
+	'cumulativeInvestmentValue',
+	'investmentProfitYearly',
+	'shelteredInvestmentValue',
+	'taxableInvestmentValue',
+	'taxableCostBasis',
+	'contributionRoom',
+	'investmentTaxYearly',
+	'liquidationTax',
+	'afterTaxInvestmentValue',
+	'totalNetWorth',
+]
+
+// Adjust results for inflation, for display. Always fills in the running
+// present value of interest paid; with toRealDollars, also converts every
+// dollar amount to today's dollars. Amounts within year N (its payments and
+// end-of-year figures) are all discounted by N years.
+export const adjustScenariosForInflation = (
+	scenarios: Scenario[],
+	inflationRate: number,
+	toRealDollars: boolean
+): Scenario[] =>
+	scenarios.map((scenario) => {
+		const convert = (amount: number, year: number) =>
+			toRealDollars ? amount * getRealDollarFactor(inflationRate, year) : amount
+
+		let totalInterestPaidPresentValue = 0
+		const yearlyData = [...scenario.yearlyData]
+			.sort((a, b) => a.year - b.year)
+			.map((data) => {
+				const factor = getRealDollarFactor(inflationRate, data.year)
+				totalInterestPaidPresentValue += data.interestPaidYearly * factor
+				const converted: YearlyPaymentData = {
+					...data,
+					totalInterestPaidPresentValue,
+				}
+				if (!toRealDollars) return converted
+
+				YEARLY_DOLLAR_FIELDS.forEach((field) => {
+					const value = data[field]
+					if (value !== undefined) converted[field] = value * factor
+				})
+				// Change vs last year's net worth in last year's real dollars
+				if (
+					data.totalNetWorth !== undefined &&
+					data.netWorthDifference !== undefined
+				) {
+					converted.netWorthDifference =
+						data.totalNetWorth * factor -
+						(data.totalNetWorth - data.netWorthDifference) *
+							getRealDollarFactor(inflationRate, data.year - 1)
+				}
+				return converted
+			})
+
+		return {
+			...scenario,
+			yearlyData,
+			paymentAmount: convert(scenario.paymentAmount, 1),
+			renewals: scenario.renewals.map((renewal) => ({
+				...renewal,
+				paymentAmount: convert(renewal.paymentAmount, renewal.year),
+			})),
+			appliedRefinances: scenario.appliedRefinances.map((refinance) => ({
+				...refinance,
+				paymentAmount: convert(refinance.paymentAmount, refinance.year),
+				newBalance: convert(refinance.newBalance, refinance.year),
+				cashOut: convert(refinance.cashOut, refinance.year),
+				costs: convert(refinance.costs, refinance.year),
+			})),
+			paymentSchedule: toRealDollars
+				? scenario.paymentSchedule.map((payment) => ({
+						...payment,
+						payment: convert(payment.payment, payment.year),
+						interest: convert(payment.interest, payment.year),
+						principal: convert(payment.principal, payment.year),
+						prepayment: convert(payment.prepayment, payment.year),
+						mortgageInsurance:
+							payment.mortgageInsurance !== undefined
+								? convert(payment.mortgageInsurance, payment.year)
+								: undefined,
+						balance: convert(payment.balance, payment.year),
+				  }))
+				: scenario.paymentSchedule,
+		}
+	})
@@ -0,0 +1,59 @@
+import jsyaml from 'js-yaml'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import exampleConfigYaml from '../public/config.yaml.example?raw'
+import { validateConfigData } from './configValidation'
+import { decodeShareLink, encodeShareLink } from './shareLink'
+import { ConfigData } from './types'
+
+const CONFIG = jsyaml.load(exampleConfigYaml, {
+	schema: jsyaml.CORE_SCHEMA,
+}) as ConfigData
+
+afterEach(() => {
+	vi.restoreAllMocks()
+})
+
+describe('decodeShareLink', () => {
+	it('reads back what encodeShareLink wrote', async () => {
+		const fragment = await encodeShareLink(CONFIG)
+		expect(fragment).toMatch(/^v1:[A-Za-z0-9_-]+$/)
+		const { config, error } = await decodeShareLink(`#${fragment}`)
+		expect(error).toBeUndefined()
+		expect(config).toEqual(CONFIG)
+		expect(validateConfigData(config)).toEqual([])
+	})
+
+	it('starts as usual without a fragment', async () => {
+		expect(await decodeShareLink('')).toEqual({})
+		expect(await decodeShareLink('#')).toEqual({})
+	})
+
+	it('reports a damaged link without logging it', async () => {
+		const consoleError = vi.spyOn(console, 'error')
+		const fragment = await encodeShareLink(CONFIG)
+		// Characters outside base64url, an impossible length, and a link cut short
+		for (const hash of ['#v1:!!!', '#v1:abcde', `#${fragment.slice(0, -8)}`]) {
+			expect(await decodeShareLink(hash)).toEqual({
+				error: 'The link is incomplete or damaged.',
+			})
+		}
+		expect(consoleError).not.toHaveBeenCalled()
+	})
+
+	it('tells links from newer versions apart from unknown ones', async () => {
+		expect((await decodeShareLink('#v2:abcd')).error).toMatch(/newer version/)
+		expect((await decodeShareLink('#v0:abcd')).error).toBe(
+			'The link uses an unsupported format (v0).'
+		)
+		expect((await decodeShareLink('#config')).error).toBe(
+			'The link is not a recognized comparison link.'
+		)
+	})
+
+	it('rejects a link with invalid inputs', async () => {
+		const fragment = await encodeShareLink({ ...CONFIG, homePrice: -1 })
+		expect((await decodeShareLink(`#${fragment}`)).error).toBe(
+			"The link's comparison inputs are invalid: homePrice must be positive"
+		)
+	})
+})
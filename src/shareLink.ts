@@ -0,0 +1,103 @@
+// Shareable links: the whole comparison, compressed into the URL fragment as
+// "#v<version>:<data>". The fragment never reaches the server, and every
+// version ever shared keeps a decoder so older links still open.
+import { validateConfigData } from './configValidation'
+import { ConfigData } from './types'
+
+const SHARE_LINK_VERSION = 1
+
+// Every version's data is URL-safe base64, which is never 1 more than a
+// multiple of 4 characters long
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+$/
+
+const DAMAGED_LINK_ERROR = 'The link is incomplete or damaged.'
+
+// Helper function to deflate text, using the browser's built-in compression
+const compress = async (text: string): Promise<Uint8Array> => {
+	const stream = new Blob([text])
+		.stream()
+		.pipeThrough(new CompressionStream('deflate-raw'))
+	return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const decompress = async (bytes: Uint8Array): Promise<string> => {
+	const stream = new Blob([bytes])
+		.stream()
+		.pipeThrough(new DecompressionStream('deflate-raw'))
+	return new Response(stream).text()
+}
+
+// Helper function for URL-safe base64 without padding, e.g. "q1ZKTc4vyi8B"
+const toBase64Url = (bytes: Uint8Array): string => {
+	let binary = ''
+	bytes.forEach((byte) => (binary += String.fromCharCode(byte)))
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string): Uint8Array => {
+	const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+	return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+// Decoders by link version. v1 is deflated JSON in config.yaml's shape; a new
+// format gets a new version here rather than replacing an old one.
+const DECODERS: Record<number, (data: string) => Promise<unknown>> = {
+	1: async (data) => JSON.parse(await decompress(fromBase64Url(data))),
+}
+
+// Build the fragment (without "#") for the current inputs
+export const encodeShareLink = async (config: ConfigData): Promise<string> =>
+	`v${SHARE_LINK_VERSION}:${toBase64Url(
+		await compress(JSON.stringify(config))
+	)}`
+
+// Read a comparison from a URL fragment. Returns neither a config nor an error
+// when there's no fragment, so the app starts as usual.
+export const decodeShareLink = async (
+	hash: string
+): Promise<{ config?: ConfigData; error?: string }> => {
+	const fragment = hash.replace(/^#/, '')
+	if (fragment === '') return {}
+
+	const match = fragment.match(/^v(\d+):(.+)$/)
+	if (!match) {
+		return { error: 'The link is not a recognized comparison link.' }
+	}
+	const version = Number(match[1])
+	const decoder = DECODERS[version]
+	if (!decoder) {
+		return {
+			error:
+				version > SHARE_LINK_VERSION
+					? 'The link was made by a newer version of this app. Reload to update, then try again.'
+					: `The link uses an unsupported format (v${version}).`,
+		}
+	}
+
+	// Checked up front, as atob throws on anything else
+	const data = match[2]
+	if (!BASE64URL_PATTERN.test(data) || data.length % 4 === 1) {
+		return { error: DAMAGED_LINK_ERROR }
+	}
+
+	try {
+		const config = await decoder(data)
+		// Checked like an imported file, so a bad link can't break the app
+		const errors = validateConfigData(config)
+		if (errors.length > 0) {
+			return {
+				error: `The link's comparison inputs are invalid: ${errors.join('; ')}`,
+			}
+		}
+		return { config: config as ConfigData }
+	} catch {
+		// Usually a link cut short when it was copied, so it won't decompress
+		return { error: DAMAGED_LINK_ERROR }
+	}
+}
+
+// The full link for the current page, e.g. to copy to the clipboard
+export const buildShareUrl = async (config: ConfigData): Promise<string> =>
+	`${window.location.origin}${window.location.pathname}${
+		window.location.search
+	}#${await encodeShareLink(config)}`
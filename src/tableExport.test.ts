@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import {
+	calculateScenariosWithInvestment,
+	createScenario,
+} from './mortgageCalculations'
+import { buildComparisonCsv, buildComparisonSheets } from './tableExport'
+import { ConfigData, Scenario } from './types'
+
+const CONFIG: ConfigData = {
+	homePrice: 500000,
+	initialInvestments: 150000,
+	inflationRate: 2,
+	initialScenarios: [],
+}
+const OPTIONS = {
+	title: 'Condo vs House',
+	showRealDollars: false,
+	inflationRate: 2,
+}
+
+// Helper function to calculate scenarios the way the comparison table does
+const calculate = (names: string[]): Scenario[] =>
+	calculateScenariosWithInvestment(
+		names.map((name) => {
+			const result = createScenario(
+				CONFIG.homePrice,
+				{
+					downPaymentInput: 20,
+					downPaymentType: 'percent',
+					interestRate: 5,
+					term: 2,
+					rateTerms: [{ years: 1 }],
+					firstPaymentDate: '2025-01-01',
+				},
+				[],
+				name
+			)
+			if (result.error !== undefined) throw new Error(result.error)
+			return result.scenario
+		}),
+		{ initialInvestments: 150000, maxYears: 2, investmentReturn: 6 }
+	)
+
+describe('buildComparisonSheets', () => {
+	it('starts each sheet with the inputs the figures came from', () => {
+		const [combined] = buildComparisonSheets(CONFIG, calculate(['Fixed']), {
+			...OPTIONS,
+			showRealDollars: true,
+		})
+		const headerEnd = combined.rows.findIndex((row) => row[0] === 'Year')
+		const header = combined.rows.slice(0, headerEnd)
+		expect(header[0]).toEqual(['Condo vs House'])
+		expect(header[1][0]).toBe('Exported')
+		expect(header[1][1]).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+		expect(header[2]).toEqual(['Dollars', "Today's dollars (2% inflation)"])
+		expect(header).toContainEqual(['homePrice', 500000])
+		expect(header).toContainEqual(['inflationRate', 2])
+		// Scenarios are listed below, not as one cell
+		expect(header.some((row) => row[0] === 'initialScenarios')).toBe(false)
+		const scenarioStart = header.findIndex(
+			(row) => row[0] === 'Scenario: Fixed'
+		)
+		const scenarioInputs = header.slice(scenarioStart)
+		expect(scenarioInputs).toContainEqual(['interestRate', 5])
+		// The global price is listed once, not pinned on every scenario
+		expect(scenarioInputs.some((row) => row[0] === 'homePrice')).toBe(false)
+		expect(scenarioInputs).toContainEqual(['rateTerms', '[{"years":1}]'])
+		// Calculated results aren't inputs
+		expect(scenarioInputs.some((row) => row[0] === 'yearlyData')).toBe(false)
+	})
+
+	it('adds one sheet per scenario after the combined one', () => {
+		const sheets = buildComparisonSheets(
+			CONFIG,
+			calculate(['Fixed', 'Variable']),
+			OPTIONS
+		)
+		expect(sheets.map((sheet) => sheet.name)).toEqual([
+			'All Scenarios',
+			'Fixed',
+			'Variable',
+		])
+		const combinedRows = sheets[0].rows.filter(
+			(row) => typeof row[0] === 'number'
+		)
+		expect(combinedRows.map((row) => [row[0], row[1]])).toEqual([
+			[1, 'Fixed'],
+			[1, 'Variable'],
+			[2, 'Fixed'],
+			[2, 'Variable'],
+		])
+		expect(
+			sheets[1].rows.filter((row) => typeof row[0] === 'number')
+		).toHaveLength(2)
+	})
+})
+
+describe('buildComparisonCsv', () => {
+	it('quotes fields with commas, quotes and line breaks only', () => {
+		const csv = buildComparisonCsv(
+			CONFIG,
+			calculate(['Condo, "downtown"\nunit']),
+			{ ...OPTIONS, title: 'Plain title' }
+		)
+		const lines = csv.split('\r\n')
+		expect(lines[0]).toBe('Plain title')
+		expect(lines[2]).toBe('Dollars,Nominal')
+		expect(csv).toContain('\r\n"Scenario: Condo, ""downtown""\nunit"\r\n')
+		expect(csv).toContain('\r\n1,"Condo, ""downtown""\nunit",')
+		expect(csv).toContain('\r\nrateTerms,"[{""years"":1}]"\r\n')
+		expect(csv).toContain(
+			'\r\nYear,Scenario,Beginning Balance,Interest Rate (%),Regular Payment,'
+		)
+	})
+
+	it('leaves unset values empty', () => {
+		const csv = buildComparisonCsv(CONFIG, calculate(['Fixed']), OPTIONS)
+		const yearOne = csv
+			.split('\r\n')
+			.find((line) => line.startsWith('1,Fixed,'))
+		// No rent, refinance or sale for a mortgage kept to the end
+		expect(yearOne).toMatch(/,,/)
+		expect(yearOne).not.toContain('undefined')
+		expect(yearOne).not.toContain('NaN')
+	})
+})
@@ -0,0 +1,156 @@
+// Exporting the year-by-year comparison for spreadsheets. Values stay raw
+// numbers (not formatted currency), below a block recording the inputs.
+import { getScenarioConfig } from './mortgageCalculations'
+import { ConfigData, Scenario, YearlyPaymentData } from './types'
+import { Sheet, SheetCell } from './xlsxWriter'
+
+// Columns of the comparison table, in the same order
+const EXPORT_COLUMNS: { key: keyof YearlyPaymentData; label: string }[] = [
+	{ key: 'beginningBalance', label: 'Beginning Balance' },
+	{ key: 'interestRate', label: 'Interest Rate (%)' },
+	{ key: 'paymentAmount', label: 'Regular Payment' },
+	{ key: 'principalPaidYearly', label: 'Principal Paid' },
+	{ key: 'interestPaidYearly', label: 'Interest Paid' },
+	{ key: 'mortgageInsuranceYearly', label: 'Mortgage Insurance' },
+	{ key: 'rentYearly', label: 'Rent' },
+	{ key: 'propertyTaxYearly', label: 'Property Tax' },
+	{ key: 'insuranceYearly', label: 'Insurance' },
+	{ key: 'hoaFeesYearly', label: 'HOA Fees' },
+	{ key: 'maintenanceYearly', label: 'Maintenance' },
+	{ key: 'annualCost', label: 'Annual Cost' },
+	{ key: 'endingBalance', label: 'Ending Balance' },
+	{ key: 'totalInterestPaid', label: 'Total Interest' },
+	{ key: 'totalInterestPaidPresentValue', label: 'Total Interest (PV)' },
+	{ key: 'investmentDifference', label: 'Invested Diff. This Year' },
+	{ key: 'totalPrincipalPaid', label: 'Total Principal' },
+	{ key: 'refinanceCashOut', label: 'Refinance Cash-Out' },
+	{ key: 'refinanceCosts', label: 'Refinance Costs' },
+	{ key: 'investmentProfitYearly', label: 'Investment Profit (Year)' },
+	{ key: 'cumulativeInvestmentValue', label: 'Total Investment Value' },
+	{ key: 'investmentTaxYearly', label: 'Investment Tax (Year)' },
+	{ key: 'liquidationTax', label: 'Tax if Sold' },
+	{ key: 'homeValue', label: 'Home Value' },
+	{ key: 'homeEquity', label: 'Home Equity' },
+	{ key: 'salePrice', label: 'Sale Price' },
+	{ key: 'sellingCosts', label: 'Selling Costs' },
+	{ key: 'prepaymentPenalty', label: 'Prepayment Penalty' },
+	{ key: 'saleProceeds', label: 'Home Sale Proceeds' },
+	{ key: 'totalNetWorth', label: 'Total Net Worth' },
+	{ key: 'netWorthDifference', label: 'Change ($)' },
+	{ key: 'performancePercentage', label: 'Performance (%)' },
+]
+
+export interface ExportOptions {
+	title: string // e.g. the workspace name
+	showRealDollars: boolean
+	inflationRate: number
+}
+
+// Helper function to write a value as one cell. Nested inputs (rate terms,
+// prepayments, ...) are written as compact JSON, e.g. [{"years":5}]
+const toCell = (value: unknown): SheetCell => {
+	if (
+		value === undefined ||
+		typeof value === 'number' ||
+		typeof value === 'string' ||
+		typeof value === 'boolean'
+	) {
+		return value
+	}
+	return JSON.stringify(value)
+}
+
+// Helper function to list inputs as label/value rows, skipping unset ones
+const toInputRows = (inputs: object, skip = new Set<string>()): SheetCell[][] =>
+	Object.entries(inputs)
+		.filter(([key, value]) => value !== undefined && !skip.has(key))
+		.map(([key, value]) => [key, toCell(value)])
+
+// Rows recording what the figures below were calculated from
+const buildHeaderBlock = (
+	config: ConfigData,
+	scenarios: Scenario[],
+	options: ExportOptions
+): SheetCell[][] => [
+	[options.title],
+	['Exported', new Date().toISOString().slice(0, 10)],
+	[
+		'Dollars',
+		options.showRealDollars
+			? `Today's dollars (${options.inflationRate}% inflation)`
+			: 'Nominal',
+	],
+	[],
+	['Inputs'],
+	...toInputRows(config, new Set(['initialScenarios'])),
+	...scenarios.flatMap((scenario) => [
+		[],
+		[`Scenario: ${scenario.name}`],
+		...toInputRows(getScenarioConfig(scenario)),
+	]),
+	[],
+]
+
+const toDataRow = (data: YearlyPaymentData): SheetCell[] =>
+	EXPORT_COLUMNS.map((column) => toCell(data[column.key]))
+
+// A sheet with every scenario's yearly data, year by year like the table
+const buildCombinedSheet = (
+	config: ConfigData,
+	scenarios: Scenario[],
+	options: ExportOptions
+): Sheet => {
+	const maxYears = Math.max(
+		0,
+		...scenarios.map((scenario) => scenario.yearlyData.length)
+	)
+	const rows: SheetCell[][] = []
+	for (let year = 1; year <= maxYears; year++) {
+		scenarios.forEach((scenario) => {
+			const data = scenario.yearlyData.find((d) => d.year === year)
+			if (data) rows.push([year, scenario.name, ...toDataRow(data)])
+		})
+	}
+	return {
+		name: 'All Scenarios',
+		rows: [
+			...buildHeaderBlock(config, scenarios, options),
+			['Year', 'Scenario', ...EXPORT_COLUMNS.map((column) => column.label)],
+			...rows,
+		],
+	}
+}
+
+// Build the workbook: the combined sheet, then one sheet per scenario
+export const buildComparisonSheets = (
+	config: ConfigData,
+	scenarios: Scenario[],
+	options: ExportOptions
+): Sheet[] => [
+	buildCombinedSheet(config, scenarios, options),
+	...scenarios.map((scenario) => ({
+		name: scenario.name,
+		rows: [
+			...buildHeaderBlock(config, [scenario], options),
+			['Year', ...EXPORT_COLUMNS.map((column) => column.label)],
+			...scenario.yearlyData.map((data) => [data.year, ...toDataRow(data)]),
+		],
+	})),
+]
+
+// Helper function to quote a CSV field only when it needs it
+const toCsvField = (value: SheetCell): string => {
+	if (value === undefined) return ''
+	const text = String(value)
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// CSV holds a single table, so it gets the combined sheet
+export const buildComparisonCsv = (
+	config: ConfigData,
+	scenarios: Scenario[],
+	options: ExportOptions
+): string =>
+	buildCombinedSheet(config, scenarios, options)
+		.rows.map((row) => row.map(toCsvField).join(','))
+		.join('\r\n')
@@ -0,0 +1,455 @@
+// Shared types for scenarios, the amortization engine and config.yaml
+
+export type DownPaymentType = 'amount' | 'percent'
+
+// How often interest compounds. US mortgages compound monthly, Canadian fixed
+// mortgages compound semi-annually by law.
+export type CompoundingFrequency = 'monthly' | 'semi-annual' | 'daily'
+
+// How often payments are made. Accelerated bi-weekly pays half the monthly
+// payment every two weeks, i.e. one extra monthly payment a year.
+export type PaymentFrequency =
+	| 'monthly'
+	| 'semi-monthly'
+	| 'bi-weekly'
+	| 'accelerated-bi-weekly'
+	| 'weekly'
+
+// Buying with a mortgage, or renting and investing the down payment instead
+export type ScenarioType = 'mortgage' | 'rent'
+
+// Shape of a single scenario as written in config.yaml. Rent scenarios only
+// use the rent fields; the mortgage fields may be omitted for them.
+export interface ScenarioConfig {
+	name: string
+	type?: ScenarioType // Defaults to mortgage
+	downPaymentInput: number
+	downPaymentType: DownPaymentType
+	interestRate: number
+	term: number // Amortization period in years
+	rateTerms?: RateTerm[] // Rate terms in order, e.g. a 5-year fixed then renewals
+	renewalRate?: number // Assumed rate at renewal for terms without their own rate
+	variableRate?: VariableRateConfig // Omit for a fixed rate
+	homePrice?: number // Overrides the global home price
+	ownershipCosts?: Partial<OwnershipCosts> // Overrides the global ownership costs
+	closingCosts?: Partial<ClosingCosts> // Overrides the global closing costs
+	sale?: Partial<SaleSettings> // Overrides the global sale plan
+	refinances?: RefinanceEvent[] // Applied in order of year
+	mortgageInsurance?: MortgageInsuranceConfig // Omit for no default insurance
+	appreciationRate?: number // Overrides the global home appreciation rate, in %/yr
+	investmentReturn?: number // Overrides the global investment return, in %/yr
+	investmentReturnPath?: InvestmentReturnChange[] // Overrides the global return path
+	investmentTax?: Partial<InvestmentTaxSettings> // Overrides the global account and tax settings
+	firstPaymentDate?: string // ISO date (YYYY-MM-DD) of the first payment
+	compounding?: CompoundingFrequency // Defaults to monthly
+	paymentFrequency?: PaymentFrequency // Defaults to monthly
+	recurringPrepayments?: RecurringPrepayment[]
+	lumpSumPrepayments?: LumpSumPrepayment[]
+	monthlyRent?: number // Rent in year 1
+	annualRentIncrease?: number // % per year
+	rentersInsurance?: number // $ per year, grows with the rent
+}
+
+// Mortgage default insurance for low down payments. CMHC charges a one-time
+// premium added to the loan; US PMI is a monthly premium until the balance
+// falls to removalLtv of the original home price.
+export type MortgageInsuranceType = 'none' | 'cmhc' | 'pmi'
+
+// Premium for loans up to maxLtv (% of the home price). For CMHC the rate is
+// a % of the loan, once; for PMI it's a % of the original loan per year.
+export interface MortgageInsuranceTier {
+	maxLtv: number
+	rate: number
+}
+
+export interface MortgageInsuranceConfig {
+	type: MortgageInsuranceType
+	tiers?: MortgageInsuranceTier[] // Defaults to the standard CMHC or typical PMI rates
+	removalLtv?: number // PMI only, in %. Defaults to 78
+}
+
+// The insurance a scenario ends up paying
+export interface MortgageInsuranceResult {
+	type: MortgageInsuranceType
+	loanToValue: number // % of the home price borrowed, before any premium
+	rate: number // From the matching tier
+	premium: number // CMHC: added to the loan. PMI: per year while it applies
+	removalYear?: number // PMI only: last loan year with a premium
+}
+
+// Expected investment return (in %) from the given year on, until the next change
+export interface InvestmentReturnChange {
+	year: number
+	rate: number
+}
+
+// Where invested savings are held. TFSA and Roth IRA are tax-free; RRSP,
+// 401(k) and traditional IRA are tax-deferred; anything else is taxable.
+export type InvestmentAccountType =
+	| 'taxable'
+	| 'tfsa'
+	| 'roth-ira'
+	| 'rrsp'
+	| '401k'
+	| 'ira'
+
+// Tax treatment of invested savings. Savings fill the sheltered account's
+// contribution room first; the rest goes to a taxable account.
+export interface InvestmentTaxSettings {
+	accountType: InvestmentAccountType
+	contributionRoom: number // $ of room available today
+	annualContributionRoom: number // $ of new room each year from year 2
+	withdrawalTaxRate: number // % tax on tax-deferred withdrawals (and refund on contributions)
+	capitalGainsTaxRate: number // % effective tax on taxable gains, paid when sold
+	dividendYield: number // % of the taxable balance paid out as dividends/interest each year
+	dividendTaxRate: number // % tax on those dividends, paid yearly
+}
+
+// Balances of a scenario's investments at the end of a year
+export interface InvestmentAccounts {
+	sheltered: number
+	taxable: number
+	taxableCostBasis: number // Taxable contributions plus reinvested after-tax dividends
+	contributionRoom: number // Sheltered room left
+}
+
+// A rate term within the amortization period, e.g. a 5-year fixed. The first
+// term defaults to the scenario's interestRate, later ones to its renewalRate.
+export interface RateTerm {
+	years: number
+	interestRate?: number
+}
+
+// Variable-rate payments either float with the rate, or stay fixed so a
+// rising rate extends the amortization instead (trigger-rate behaviour)
+export type VariablePaymentMode = 'floating' | 'fixed'
+
+// A change in rate taking effect with the first payment of the given month
+export interface RateChange {
+	year: number
+	month?: number // 1-12 within the loan year, defaults to 1
+	rate: number
+}
+
+// Rate path for a variable-rate scenario: either absolute rates, or a prime
+// rate path with a spread. The scenario's interestRate applies until the first change.
+export interface VariableRateConfig {
+	ratePath?: RateChange[]
+	primeRatePath?: RateChange[]
+	spread?: number // Added to prime, in % (negative for prime minus)
+	paymentMode?: VariablePaymentMode // Defaults to floating
+}
+
+// Extra principal paid from startYear through endYear, spread across payments
+export interface RecurringPrepayment {
+	amount: number // Per month
+	startYear: number
+	endYear?: number // Omit to keep paying extra until the loan is paid off
+}
+
+// One-time principal payment made alongside a regular payment
+export interface LumpSumPrepayment {
+	amount: number
+	year: number
+	month?: number // 1-12 within the loan year, defaults to 1
+}
+
+// Breaking the mortgage to take a new rate and amortization, optionally
+// borrowing more (cash-out). Penalty and fees are paid from investments.
+export interface RefinanceEvent {
+	year: number // Takes effect from the first payment of this loan year (2 or later)
+	interestRate: number // Fixed for the rest of the new loan
+	term: number // New amortization period in years
+	cashOut?: number // Extra borrowed and invested, $
+	penalty?: number // Prepayment penalty on the old mortgage, $
+	fees?: number // Appraisal, legal and lender fees, $
+}
+
+// A refinance as applied to the amortization
+export interface RefinanceResult {
+	year: number
+	date: string
+	interestRate: number
+	paymentAmount: number // New regular payment
+	newBalance: number // Including any cash-out
+	cashOut: number
+	costs: number // Penalty plus fees
+	breakEvenYear?: number // First year the interest saved (not counting cash-out) covers the costs, if ever
+}
+
+// Recurring costs of owning the home besides the mortgage. Property tax and
+// maintenance follow the home's value; the others grow at their own
+// inflation rate (% per year).
+export interface OwnershipCosts {
+	propertyTaxRate: number // % of home value per year
+	insurance: number // $ per year
+	insuranceInflation: number
+	hoaFees: number // HOA/condo fees, $ per month
+	hoaFeesInflation: number
+	maintenanceRate: number // % of home value per year
+}
+
+// A marginal tax bracket: the rate (%) applies to the part of the price up
+// to upTo. The top bracket omits upTo.
+export interface TaxBracket {
+	upTo?: number
+	rate: number
+}
+
+// Land transfer tax for a province/state or municipality
+export interface LandTransferTaxTable {
+	label: string
+	brackets: TaxBracket[]
+	firstTimeBuyerRebate: number // Max rebate for first-time buyers, $
+	firstTimeBuyerMaxPrice?: number // No rebate above this price
+}
+
+// One-time costs of buying the home, paid from the initial investments
+export interface ClosingCosts {
+	legalFees: number // $
+	inspectionFees: number // $
+	otherFees: number // $, e.g. appraisal, title insurance, moving
+	provincialTax: string // Provincial/state land transfer tax table, or 'none'
+	municipalTax: string // Municipal land transfer tax table, or 'none'
+	firstTimeBuyer: boolean
+}
+
+export interface ClosingCostBreakdown {
+	fees: number // Legal, inspection and other fees
+	provincialTax: number // After any first-time buyer rebate
+	municipalTax: number // After any first-time buyer rebate
+	firstTimeBuyerRebate: number
+	total: number
+}
+
+// How the lender charges for paying the mortgage off early. 'ird' is the
+// greater of the interest rate differential over the rest of the rate term
+// (5 years when there are no rate terms) and 3 months' interest. Variable-rate
+// loans always pay 3 months' interest.
+export type PrepaymentPenaltyType = 'none' | 'three-months-interest' | 'ird'
+
+// Selling the home at the end of a year, paying off the mortgage and
+// investing what's left
+export interface SaleSettings {
+	year: number // Sell at the end of this year; 0 to never sell
+	commissionRate: number // Realtor commission, % of the sale price
+	closingCosts: number // Legal and other selling costs, $
+	prepaymentPenalty: PrepaymentPenaltyType
+	irdComparisonRate?: number // Lender's current rate for the remaining term, %. Defaults to the mortgage rate
+}
+
+// Define an interface for the expected structure of config.yaml
+export interface ConfigData {
+	homePrice: number
+	initialInvestments: number
+	appreciationRate?: number // Yearly home price appreciation in %, defaults to 0
+	investmentReturn?: number // Expected yearly investment return in %, defaults to 7
+	investmentReturnPath?: InvestmentReturnChange[] // Year-by-year changes to the return
+	monteCarlo?: Partial<MonteCarloSettings>
+	investmentTax?: Partial<InvestmentTaxSettings> // Defaults to a taxable account with no tax
+	inflationRate?: number // General inflation in %/yr, for today's dollars. Defaults to 2
+	ownershipCosts?: Partial<OwnershipCosts> // Defaults for every scenario
+	closingCosts?: Partial<ClosingCosts> // Defaults for every scenario
+	sale?: Partial<SaleSettings> // Defaults for every scenario
+	initialScenarios: ScenarioConfig[]
+}
+
+// A named set of inputs saved in the browser, in the same shape as config.yaml
+export interface Workspace {
+	id: string
+	name: string
+	config: ConfigData
+}
+
+// Everything saved in localStorage
+export interface WorkspaceStore {
+	version: 1
+	activeWorkspaceId: string
+	workspaces: Workspace[]
+}
+
+// A scenario's inputs plus the results calculated from them
+export interface Scenario extends ScenarioConfig {
+	homePrice: number // Its own price, or the global price when it was created
+	hasOwnHomePrice: boolean // Whether homePrice was set on the scenario itself
+	downPayment: number
+	firstPaymentDate: string
+	compounding: CompoundingFrequency
+	paymentFrequency: PaymentFrequency
+	paymentAmount: number // Initial regular P&I payment, per payment period
+	renewals: RenewalEvent[]
+	appliedRefinances: RefinanceResult[]
+	warnings: string[] // e.g. negative amortization on a fixed-payment variable
+	payoffYear: number // Loan year of the final payment
+	payoffDate: string // ISO date of the final payment
+	interestSaved: number // Interest avoided by prepayments vs the regular schedule
+	mortgageInsuranceDetails?: MortgageInsuranceResult // Absent when uninsured
+	closingCostBreakdown?: ClosingCostBreakdown // Set by the comparison; absent for rent
+	saleYear?: number // Set by the comparison when the home is sold within the horizon
+	yearlyData: YearlyPaymentData[]
+	paymentSchedule: PaymentScheduleEntry[]
+}
+
+// The start of a new rate term, where the payment is recalculated
+export interface RenewalEvent {
+	year: number
+	date: string
+	interestRate: number
+	paymentAmount: number
+}
+
+// A single scheduled payment, for reconciling against lender statements
+export interface PaymentScheduleEntry {
+	paymentNumber: number
+	year: number // Loan year the payment falls in (1-based)
+	date: string // ISO date (YYYY-MM-DD)
+	interestRate: number
+	payment: number // Regular payment (interest + principal)
+	interest: number
+	principal: number
+	prepayment: number // Extra principal paid on top of the regular payment
+	mortgageInsurance?: number // PMI premium paid with this payment
+	balance: number // Balance remaining after this payment
+	negativeAmortization?: boolean // Payment didn't cover the interest
+}
+
+export interface YearlyPaymentData {
+	year: number
+	beginningBalance: number
+	interestPaidYearly: number
+	principalPaidYearly: number
+	endingBalance: number
+	totalPrincipalPaid: number
+	totalInterestPaid: number
+	totalInterestPaidPresentValue?: number // Total interest paid, discounted to today's dollars by inflation
+	annualCost: number // Principal (including prepayments) + Interest + PMI + Ownership costs (or Rent) for the year
+	interestRate?: number // Rate in effect at the end of the year
+	paymentAmount?: number // Regular payment in effect at the end of the year
+	mortgageInsuranceYearly?: number // PMI premiums paid this year
+	refinanceCashOut?: number // Borrowed on refinancing this year, and invested
+	refinanceCosts?: number // Refinance penalty and fees, paid from investments
+	negativeAmortization?: boolean // Some payment this year didn't cover interest
+	rentYearly?: number
+	propertyTaxYearly?: number
+	insuranceYearly?: number // Home insurance, or renter's insurance when renting
+	hoaFeesYearly?: number
+	maintenanceYearly?: number
+	ownershipCostYearly?: number // Sum of the ownership costs above
+	homeValue?: number // Market value of the home at the end of the year
+	homeEquity?: number // Home Value - Ending Balance, or 0 once sold
+	salePrice?: number // Only in the year the home is sold
+	sellingCosts?: number // Commission and closing costs
+	prepaymentPenalty?: number
+	saleProceeds?: number // Sale price less selling costs, balance and penalty; invested
+	investmentDifference?: number // Difference vs highest annual cost scenario
+	cumulativeInvestmentValue?: number // Total value of invested differences, before tax
+	investmentProfitYearly?: number // Investment gain, for the year
+	shelteredInvestmentValue?: number
+	taxableInvestmentValue?: number
+	taxableCostBasis?: number
+	contributionRoom?: number // Sheltered room left at the end of the year
+	investmentTaxYearly?: number // Tax on taxable dividends, for the year
+	liquidationTax?: number // Tax due if all investments were sold at the end of the year
+	afterTaxInvestmentValue?: number // Cumulative Investment Value - Liquidation Tax
+	totalNetWorth?: number // Home Equity + After-Tax Investment Value
+	performancePercentage?: number // % difference vs max net worth for the year
+	netWorthDifference?: number // Year-over-Year change for the scenario
+}
+
+// Keys of YearlyPaymentData holding numbers, i.e. the ones that can be charted
+export type YearlyMetricKey = {
+	[K in keyof YearlyPaymentData]-?: YearlyPaymentData[K] extends
+		| number
+		| undefined
+		? K
+		: never
+}[keyof YearlyPaymentData]
+
+export interface AmortizationOptions {
+	firstPaymentDate: string
+	compounding?: CompoundingFrequency
+	paymentFrequency?: PaymentFrequency
+	rateTerms?: RateTerm[]
+	renewalRate?: number
+	variableRate?: VariableRateConfig
+	recurringPrepayments?: RecurringPrepayment[]
+	lumpSumPrepayments?: LumpSumPrepayment[]
+	refinances?: RefinanceEvent[]
+}
+
+export interface AmortizationResult {
+	yearlyData: YearlyPaymentData[]
+	paymentSchedule: PaymentScheduleEntry[]
+	paymentAmount: number // Initial regular payment
+	renewals: RenewalEvent[]
+	appliedRefinances: RefinanceResult[] // Without break-even years
+	warnings: string[]
+}
+
+// Global inputs to the cross-scenario "invest the difference" comparison
+export interface ComparisonOptions {
+	initialInvestments: number
+	maxYears: number
+	investmentReturn: number // Expected yearly return in %
+	investmentReturnPath?: InvestmentReturnChange[] // Scenarios may override both
+	appreciationRate?: number // Home appreciation in %/yr; scenarios may override
+	ownershipCosts?: Partial<OwnershipCosts> // Defaults; scenarios may override
+	closingCosts?: Partial<ClosingCosts> // Defaults; scenarios may override
+	sale?: Partial<SaleSettings> // Defaults; scenarios may override
+	investmentTax?: Partial<InvestmentTaxSettings> // Defaults; scenarios may override
+}
+
+export interface ScenarioValidationResult {
+	isValid: boolean
+	message: string
+	actualDownPayment?: number
+	principal?: number
+	scenarioName?: string
+}
+
+// Settings for simulating random investment returns instead of a fixed path
+export interface MonteCarloSettings {
+	enabled: boolean
+	simulations: number // Number of return paths to run
+	mean: number // Mean yearly return, in %
+	volatility: number // Standard deviation of the yearly return, in %
+	seed: number // Same seed, same results
+}
+
+// 10th, 50th and 90th percentile net worth across simulations for a year
+export interface NetWorthPercentiles {
+	year: number
+	p10: number
+	p50: number
+	p90: number
+}
+
+export interface MonteCarloResult {
+	simulations: number
+	percentiles: { scenarioName: string; years: NetWorthPercentiles[] }[]
+	// For each pair of scenarios, the chance A's net worth beats B's, by year (index 0 = year 1)
+	winProbabilities: {
+		scenarioA: string
+		scenarioB: string
+		probabilities: number[]
+	}[]
+}
+
+// Everything the calculation worker needs for one run
+export interface CalculationRequest {
+	runId: number // Identifies the run, so results of stale runs can be dropped
+	scenarios: Scenario[]
+	options: ComparisonOptions
+	monteCarloSettings: MonteCarloSettings | null // null skips the simulation
+}
+
+export interface CalculationResults {
+	scenariosWithInvestment: Scenario[]
+	monteCarloResult: MonteCarloResult | null
+}
+
+// Messages posted back by the calculation worker
+export type CalculationResponse =
+	| { type: 'progress'; runId: number; completed: number; total: number }
+	| ({ type: 'result'; runId: number } & CalculationResults)
+	| { type: 'error'; runId: number; message: string }
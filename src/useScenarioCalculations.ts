@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from 'react'
+import { runCalculations } from './calculationPipeline'
+import {
+	CalculationRequest,
+	CalculationResponse,
+	CalculationResults,
+	ComparisonOptions,
+	MonteCarloSettings,
+	Scenario,
+} from './types'
+
+export interface ScenarioCalculationsState extends CalculationResults {
+	isPending: boolean // Inputs changed and new results are on their way
+	progress: number | null // Fraction of Monte Carlo simulations done, while pending
+	error: string | null
+}
+
+const createCalculationWorker = () =>
+	new Worker(new URL('./calculationWorker.ts', import.meta.url), {
+		type: 'module',
+	})
+
+// Run the calculation pipeline in a Web Worker whenever its inputs change.
+// The previous results stay available while a new run is pending. A run that
+// is still busy when the inputs change again is stale, so its worker is
+// terminated and replaced rather than left to finish.
+export const useScenarioCalculations = (
+	scenarios: Scenario[],
+	options: ComparisonOptions,
+	monteCarloSettings: MonteCarloSettings | null
+): ScenarioCalculationsState => {
+	const [results, setResults] = useState<CalculationResults>({
+		scenariosWithInvestment: [],
+		monteCarloResult: null,
+	})
+	const [isPending, setIsPending] = useState(true)
+	const [progress, setProgress] = useState<number | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	const workerRef = useRef<Worker | null>(null)
+	const isWorkerBusyRef = useRef(false)
+	const latestRunIdRef = useRef(0)
+
+	useEffect(() => {
+		const request: CalculationRequest = {
+			runId: ++latestRunIdRef.current,
+			scenarios,
+			options,
+			monteCarloSettings,
+		}
+		setIsPending(true)
+		setProgress(null)
+
+		// Fall back to calculating on the main thread
+		if (typeof Worker === 'undefined') {
+			try {
+				setResults(runCalculations(request))
+				setError(null)
+			} catch (e: unknown) {
+				setError(e instanceof Error ? e.message : String(e))
+			}
+			setIsPending(false)
+			return
+		}
+
+		if (isWorkerBusyRef.current && workerRef.current) {
+			workerRef.current.terminate()
+			workerRef.current = null
+		}
+		if (!workerRef.current) {
+			workerRef.current = createCalculationWorker()
+		}
+		const worker = workerRef.current
+
+		worker.onmessage = (event: MessageEvent<CalculationResponse>) => {
+			const response = event.data
+			if (response.runId !== latestRunIdRef.current) return // Stale run
+			switch (response.type) {
+				case 'progress':
+					setProgress(response.completed / response.total)
+					return
+				case 'result':
+					setResults({
+						scenariosWithInvestment: response.scenariosWithInvestment,
+						monteCarloResult: response.monteCarloResult,
+					})
+					setError(null)
+					break
+				case 'error':
+					setError(response.message)
+					break
+			}
+			isWorkerBusyRef.current = false
+			setIsPending(false)
+			setProgress(null)
+		}
+		worker.onerror = (event: ErrorEvent) => {
+			isWorkerBusyRef.current = false
+			setError(event.message || 'Calculation worker failed.')
+			setIsPending(false)
+			setProgress(null)
+		}
+
+		isWorkerBusyRef.current = true
+		worker.postMessage(request)
+	}, [scenarios, options, monteCarloSettings])
+
+	// Stop the worker when the component using it unmounts
+	useEffect(
+		() => () => {
+			workerRef.current?.terminate()
+			workerRef.current = null
+		},
+		[]
+	)
+
+	return { ...results, isPending, progress, error }
+}
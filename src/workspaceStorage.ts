@@ -0,0 +1,117 @@
+// Named workspaces saved in the browser's localStorage. Each one holds the same
+// inputs as config.yaml, so switching to a workspace works like loading a config.
+import { validateConfigData } from './configValidation'
+import { ConfigData, Workspace, WorkspaceStore } from './types'
+
+const WORKSPACE_STORAGE_KEY = 'mortgage-scenarios.workspaces'
+// Workspaces that could not be loaded are moved here rather than deleted
+const INVALID_WORKSPACES_STORAGE_KEY = 'mortgage-scenarios.invalid-workspaces'
+
+// Helper function to check a stored workspace before using it. Its config is
+// validated like an imported file, since storage may be corrupt or hold a
+// config saved by an older version of the app.
+const validateWorkspace = (value: unknown): string[] => {
+	const workspace = value as Workspace | null
+	if (
+		!workspace ||
+		typeof workspace !== 'object' ||
+		typeof workspace.id !== 'string' ||
+		typeof workspace.name !== 'string'
+	) {
+		return ['not a workspace']
+	}
+	return validateConfigData(workspace.config)
+}
+
+// Helper function to set aside workspaces that failed validation, so they
+// aren't loaded but can still be recovered by hand
+const quarantineWorkspaces = (invalidWorkspaces: unknown[]): void => {
+	try {
+		const saved = localStorage.getItem(INVALID_WORKSPACES_STORAGE_KEY)
+		const previous: unknown = saved ? JSON.parse(saved) : []
+		localStorage.setItem(
+			INVALID_WORKSPACES_STORAGE_KEY,
+			JSON.stringify([
+				...(Array.isArray(previous) ? previous : []),
+				...invalidWorkspaces,
+			])
+		)
+	} catch (error) {
+		console.error('Could not set aside invalid workspaces:', error)
+	}
+}
+
+// Load the saved workspaces. Returns null when nothing usable is saved, e.g.
+// on a first visit, if storage is unavailable or the data is corrupt.
+export const loadWorkspaces = (): WorkspaceStore | null => {
+	try {
+		const saved = localStorage.getItem(WORKSPACE_STORAGE_KEY)
+		if (!saved) return null
+		const store = JSON.parse(saved) as WorkspaceStore
+		if (store?.version !== 1 || !Array.isArray(store.workspaces)) {
+			console.error('Ignoring saved workspaces: unrecognized format.')
+			return null
+		}
+
+		// Load the valid workspaces; an invalid one must not reach applyConfig
+		const workspaces: Workspace[] = []
+		const invalidWorkspaces: unknown[] = []
+		store.workspaces.forEach((workspace: unknown) => {
+			const errors = validateWorkspace(workspace)
+			if (errors.length === 0) {
+				workspaces.push(workspace as Workspace)
+			} else {
+				console.error('Setting aside an invalid saved workspace:', errors)
+				invalidWorkspaces.push(workspace)
+			}
+		})
+		if (invalidWorkspaces.length > 0) quarantineWorkspaces(invalidWorkspaces)
+		if (workspaces.length === 0) return null
+
+		// Fall back to the first workspace if the active one has gone missing
+		const hasActiveWorkspace = workspaces.some(
+			(workspace) => workspace.id === store.activeWorkspaceId
+		)
+		return {
+			...store,
+			workspaces,
+			activeWorkspaceId: hasActiveWorkspace
+				? store.activeWorkspaceId
+				: workspaces[0].id,
+		}
+	} catch (error) {
+		console.error('Could not load saved workspaces:', error)
+		return null
+	}
+}
+
+// Save the workspaces, e.g. after every change. Failures (storage full or
+// disabled) are logged rather than interrupting the user.
+export const saveWorkspaces = (store: WorkspaceStore): void => {
+	try {
+		localStorage.setItem(WORKSPACE_STORAGE_KEY, JSON.stringify(store))
+	} catch (error) {
+		console.error('Could not save workspaces:', error)
+	}
+}
+
+export const createWorkspace = (
+	name: string,
+	config: ConfigData
+): Workspace => ({
+	id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+	name,
+	config,
+})
+
+// Helper function to pick a name no other workspace uses, e.g. "Condo (copy 2)"
+export const getUniqueWorkspaceName = (
+	baseName: string,
+	workspaces: Workspace[]
+): string => {
+	const names = new Set(workspaces.map((workspace) => workspace.name))
+	if (!names.has(baseName)) return baseName
+	let suffix = 2
+	while (names.has(`${baseName} ${suffix}`)) suffix++
+	return `${baseName} ${suffix}`
+}
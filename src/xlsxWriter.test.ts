@@ -0,0 +1,141 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { createXlsx, crc32 } from './xlsxWriter'
+
+const encoder = new TextEncoder()
+
+// Helper function to read a stored (uncompressed) zip back into its files,
+// checking each file's sizes and CRC against its contents
+const unzip = (zip: Uint8Array): Map<string, string> => {
+	const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength)
+	const decoder = new TextDecoder()
+	const files = new Map<string, string>()
+	let offset = 0
+	while (view.getUint32(offset, true) === 0x04034b50) {
+		expect(view.getUint16(offset + 8, true)).toBe(0) // Stored
+		const crc = view.getUint32(offset + 14, true)
+		const compressedSize = view.getUint32(offset + 18, true)
+		const size = view.getUint32(offset + 22, true)
+		const nameLength = view.getUint16(offset + 26, true)
+		const extraLength = view.getUint16(offset + 28, true)
+		const nameStart = offset + 30
+		const dataStart = nameStart + nameLength + extraLength
+		const data = zip.slice(dataStart, dataStart + size)
+		expect(compressedSize).toBe(size)
+		expect(crc32(data)).toBe(crc)
+		files.set(
+			decoder.decode(zip.slice(nameStart, nameStart + nameLength)),
+			decoder.decode(data)
+		)
+		offset = dataStart + size
+	}
+
+	// The central directory lists every file, and ends the zip
+	const end = zip.length - 22
+	expect(view.getUint32(end, true)).toBe(0x06054b50)
+	expect(view.getUint16(end + 10, true)).toBe(files.size)
+	expect(view.getUint32(end + 16, true)).toBe(offset)
+	return files
+}
+
+const parseXml = (xml: string): Document => {
+	const document = new DOMParser().parseFromString(xml, 'application/xml')
+	expect(document.getElementsByTagName('parsererror')).toHaveLength(0)
+	return document
+}
+
+// Helper function to list a sheet's cells as reference -> value
+const readCells = (xml: string): Record<string, string | null> =>
+	Object.fromEntries(
+		Array.from(parseXml(xml).getElementsByTagName('c')).map((cell) => [
+			cell.getAttribute('r'),
+			cell.getAttribute('t') === 'inlineStr'
+				? cell.getElementsByTagName('t')[0].textContent
+				: cell.getElementsByTagName('v')[0].textContent,
+		])
+	)
+
+const readSheetNames = (files: Map<string, string>): (string | null)[] =>
+	Array.from(
+		parseXml(files.get('xl/workbook.xml')!).getElementsByTagName('sheet')
+	).map((sheet) => sheet.getAttribute('name'))
+
+describe('crc32', () => {
+	it('matches known check values', () => {
+		expect(crc32(new Uint8Array())).toBe(0)
+		expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926)
+		expect(
+			crc32(encoder.encode('The quick brown fox jumps over the lazy dog'))
+		).toBe(0x414fa339)
+	})
+})
+
+describe('createXlsx', () => {
+	it('writes a zip of well-formed workbook parts', () => {
+		const files = unzip(createXlsx([{ name: 'Data', rows: [[1]] }]))
+		expect(Array.from(files.keys())).toEqual([
+			'[Content_Types].xml',
+			'_rels/.rels',
+			'xl/workbook.xml',
+			'xl/_rels/workbook.xml.rels',
+			'xl/worksheets/sheet1.xml',
+		])
+		files.forEach((xml) => parseXml(xml))
+	})
+
+	it('writes numbers, booleans and escaped text, skipping empty cells', () => {
+		const files = unzip(
+			createXlsx([
+				{
+					name: 'Data',
+					rows: [
+						['Tom & "Jerry" <3>', 1234.5, true],
+						[undefined, '', NaN, 'tab\there\u0001'],
+						[],
+						['Ünïcödé 🏠', -0.25, false],
+					],
+				},
+			])
+		)
+		expect(readCells(files.get('xl/worksheets/sheet1.xml')!)).toEqual({
+			A1: 'Tom & "Jerry" <3>',
+			B1: '1234.5',
+			C1: '1',
+			D2: 'tab\there',
+			A4: 'Ünïcödé 🏠',
+			B4: '-0.25',
+			C4: '0',
+		})
+	})
+
+	it('names columns past Z the way Excel does', () => {
+		const row = Array.from({ length: 28 }, (_, i) => i)
+		const cells = readCells(
+			unzip(createXlsx([{ name: 'Wide', rows: [row] }])).get(
+				'xl/worksheets/sheet1.xml'
+			)!
+		)
+		expect(cells.Z1).toBe('25')
+		expect(cells.AA1).toBe('26')
+		expect(cells.AB1).toBe('27')
+	})
+
+	it('makes sheet names valid and unique', () => {
+		const longName = 'A very long scenario name that Excel will not accept'
+		const files = unzip(
+			createXlsx(
+				['Scenario', 'scenario', 'Rent: [2025]/*?', '', longName, longName].map(
+					(name) => ({ name, rows: [] })
+				)
+			)
+		)
+		expect(readSheetNames(files)).toEqual([
+			'Scenario',
+			'scenario (2)',
+			'Rent 2025',
+			'Sheet',
+			'A very long scenario name that ',
+			'A very long scenario name t (2)',
+		])
+	})
+})
@@ -0,0 +1,232 @@
+// A minimal XLSX writer: each sheet is a grid of numbers and text, written as
+// Office Open XML inside an uncompressed zip. Enough for exporting tables
+// without pulling in a spreadsheet library.
+
+export type SheetCell = string | number | boolean | undefined
+
+export interface Sheet {
+	name: string
+	rows: SheetCell[][]
+}
+
+// Excel limits sheet names to 31 characters, without []:*?/\
+const MAX_SHEET_NAME_LENGTH = 31
+
+const escapeXml = (text: string) =>
+	text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		// Control characters aren't allowed in XML
+		// eslint-disable-next-line no-control-regex
+		.replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+
+// Helper function to name a column the way Excel does, e.g. 0 -> A, 27 -> AB
+const columnName = (index: number): string => {
+	let name = ''
+	for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+		name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+	}
+	return name
+}
+
+// Helper function to make sheet names valid and unique, e.g. two "Scenario"
+// sheets become "Scenario" and "Scenario (2)"
+const toSheetNames = (sheets: Sheet[]): string[] => {
+	const names: string[] = []
+	sheets.forEach((sheet) => {
+		const base =
+			sheet.name
+				.replace(/[[\]:*?/\\]/g, '')
+				.trim()
+				.slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet'
+		// Excel compares sheet names ignoring case
+		const isTaken = (name: string) =>
+			names.some((taken) => taken.toLowerCase() === name.toLowerCase())
+		let name = base
+		for (let n = 2; isTaken(name); n++) {
+			const suffix = ` (${n})`
+			name = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix
+		}
+		names.push(name)
+	})
+	return names
+}
+
+const toCellXml = (value: SheetCell, reference: string): string => {
+	if (value === undefined || value === '') return ''
+	if (typeof value === 'number') {
+		return isFinite(value) ? `<c r="${reference}"><v>${value}</v></c>` : ''
+	}
+	if (typeof value === 'boolean') {
+		return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`
+	}
+	return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+		value
+	)}</t></is></c>`
+}
+
+const toSheetXml = (rows: SheetCell[][]): string =>
+	'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+	'<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+	rows
+		.map(
+			(row, rowIndex) =>
+				`<row r="${rowIndex + 1}">${row
+					.map((value, columnIndex) =>
+						toCellXml(value, `${columnName(columnIndex)}${rowIndex + 1}`)
+					)
+					.join('')}</row>`
+		)
+		.join('') +
+	'</sheetData></worksheet>'
+
+// --- Zip container (stored, no compression) ---
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n
+	for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+	return c >>> 0
+})
+
+// The CRC-32 zip stores for each file, e.g. "123456789" -> 0xcbf43926
+export const crc32 = (bytes: Uint8Array): number => {
+	let crc = 0xffffffff
+	bytes.forEach((byte) => {
+		crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+	})
+	return (crc ^ 0xffffffff) >>> 0
+}
+
+// Helper function to write little-endian 16/32-bit fields
+const toBytes = (fields: [number, 2 | 4][]): number[] =>
+	fields.flatMap(([value, size]) =>
+		Array.from({ length: size }, (_, i) => (value >>> (8 * i)) & 0xff)
+	)
+
+const createZip = (files: { path: string; contents: string }[]): Uint8Array => {
+	const encoder = new TextEncoder()
+	const chunks: number[][] = []
+	const centralDirectory: number[][] = []
+	let offset = 0
+
+	files.forEach((file) => {
+		const path = encoder.encode(file.path)
+		const data = encoder.encode(file.contents)
+		const crc = crc32(data)
+		// Version 2.0, UTF-8 names, stored, no timestamp
+		const common = toBytes([
+			[20, 2],
+			[0x0800, 2],
+			[0, 2],
+			[0, 2],
+			[0x21, 2],
+			[crc, 4],
+			[data.length, 4],
+			[data.length, 4],
+			[path.length, 2],
+			[0, 2],
+		])
+		const localHeader = [...toBytes([[0x04034b50, 4]]), ...common, ...path]
+		chunks.push(localHeader, Array.from(data))
+		centralDirectory.push([
+			...toBytes([
+				[0x02014b50, 4],
+				[20, 2],
+			]),
+			...common,
+			...toBytes([
+				[0, 2],
+				[0, 2],
+				[0, 2],
+				[0, 4],
+				[offset, 4],
+			]),
+			...path,
+		])
+		offset += localHeader.length + data.length
+	})
+
+	const directorySize = centralDirectory.reduce((sum, c) => sum + c.length, 0)
+	const end = toBytes([
+		[0x06054b50, 4],
+		[0, 2],
+		[0, 2],
+		[files.length, 2],
+		[files.length, 2],
+		[directorySize, 4],
+		[offset, 4],
+		[0, 2],
+	])
+	return Uint8Array.from([...chunks, ...centralDirectory, end].flat())
+}
+
+// Build an .xlsx file with one worksheet per sheet, in order
+export const createXlsx = (sheets: Sheet[]): Uint8Array => {
+	const names = toSheetNames(sheets)
+	const sheetFiles = sheets.map((sheet, index) => ({
+		path: `xl/worksheets/sheet${index + 1}.xml`,
+		contents: toSheetXml(sheet.rows),
+	}))
+
+	return createZip([
+		{
+			path: '[Content_Types].xml',
+			contents:
+				'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+				'<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+				'<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+				'<Default Extension="xml" ContentType="application/xml"/>' +
+				'<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+				sheetFiles
+					.map(
+						(file) =>
+							`<Override PartName="/${file.path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+					)
+					.join('') +
+				'</Types>',
+		},
+		{
+			path: '_rels/.rels',
+			contents:
+				'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+				'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+				'<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+				'</Relationships>',
+		},
+		{
+			path: 'xl/workbook.xml',
+			contents:
+				'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+				'<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+				names
+					.map(
+						(name, index) =>
+							`<sheet name="${escapeXml(name)}" sheetId="${
+								index + 1
+							}" r:id="rId${index + 1}"/>`
+					)
+					.join('') +
+				'</sheets></workbook>',
+		},
+		{
+			path: 'xl/_rels/workbook.xml.rels',
+			contents:
+				'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+				'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+				sheetFiles
+					.map(
+						(_, index) =>
+							`<Relationship Id="rId${
+								index + 1
+							}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${
+								index + 1
+							}.xml"/>`
+					)
+					.join('') +
+				'</Relationships>',
+		},
+		...sheetFiles,
+	])
+}